@@ -3,6 +3,9 @@ import { spfi, SPFI, SPFx } from '@pnp/sp';
 import '@pnp/sp/webs';
 import '@pnp/sp/lists';
 import '@pnp/sp/items';
+import '@pnp/sp/site-users/web';
+import '@pnp/sp/site-groups';
+import '@pnp/sp/security/web';
 
 let _sp: SPFI;
 
@@ -3,29 +3,62 @@ import * as ReactDom from 'react-dom';
 import { Version } from '@microsoft/sp-core-library';
 import {
   type IPropertyPaneConfiguration,
-  PropertyPaneTextField
+  type IPropertyPaneDropdownOption,
+  PropertyPaneTextField,
+  PropertyPaneSlider,
+  PropertyPaneDropdown,
+  PropertyPaneChoiceGroup,
+  PropertyPaneToggle
 } from '@microsoft/sp-property-pane';
 import { BaseClientSideWebPart } from '@microsoft/sp-webpart-base';
 import { IReadonlyTheme } from '@microsoft/sp-component-base';
+import { SPHttpClient } from '@microsoft/sp-http';
 import * as strings from 'ModernSharePointDashboardWebPartStrings';
 import ModernSharePointDashboard from './components/ModernSharePointDashboard';
-import { IModernSharePointDashboardProps } from './components/IModernSharePointDashboardProps';
+import { IModernSharePointDashboardProps, ListScope } from './components/IModernSharePointDashboardProps';
 
 export interface IModernSharePointDashboardWebPartProps {
   description: string;
+  slotCount: number;
+  columns: number;
+  rows: number;
+  masterListName: string;
+  masterListScope: ListScope;
+  settingsListName: string;
+  settingsListScope: ListScope;
+  hideCustomizeButton: boolean;
 }
 
+const DEFAULT_SLOT_COUNT = 4;
+const DEFAULT_COLUMNS = 4;
+const DEFAULT_ROWS = 1;
+const DEFAULT_MASTER_LIST_NAME = 'MasterCardList';
+const DEFAULT_SETTINGS_LIST_NAME = 'UserSettingsList';
+
 export default class ModernSharePointDashboardWebPart extends BaseClientSideWebPart<IModernSharePointDashboardWebPartProps> {
 
   private _isDarkTheme: boolean = false;
+  // Theme of the section the web part sits in (or the Teams theme); cards build their colors from it
+  private _theme: IReadonlyTheme | undefined;
+  // Lists available for the pickers, per scope; undefined until loaded
+  private _listOptions: { [scope in ListScope]?: IPropertyPaneDropdownOption[] } = {};
 
   public render(): void {
     const element: React.ReactElement<IModernSharePointDashboardProps> = React.createElement(
       ModernSharePointDashboard,
       {
         isDarkTheme: this._isDarkTheme,
+        theme: this._theme,
         context: this.context,
-        hasTeamsContext: !!this.context.sdks.microsoftTeams
+        hasTeamsContext: !!this.context.sdks.microsoftTeams,
+        slotCount: this.properties.slotCount || DEFAULT_SLOT_COUNT,
+        columns: this.properties.columns || DEFAULT_COLUMNS,
+        rows: this.properties.rows || DEFAULT_ROWS,
+        masterListName: this.properties.masterListName || DEFAULT_MASTER_LIST_NAME,
+        masterListScope: this.properties.masterListScope || 'web',
+        settingsListName: this.properties.settingsListName || DEFAULT_SETTINGS_LIST_NAME,
+        settingsListScope: this.properties.settingsListScope || 'site',
+        hideCustomizeButton: !!this.properties.hideCustomizeButton
       }
     );
 
@@ -41,6 +74,7 @@ export default class ModernSharePointDashboardWebPart extends BaseClientSideWebP
       return;
     }
 
+    this._theme = currentTheme;
     this._isDarkTheme = !!currentTheme.isInverted;
     const {
       semanticColors
@@ -52,6 +86,11 @@ export default class ModernSharePointDashboardWebPart extends BaseClientSideWebP
       this.domElement.style.setProperty('--linkHovered', semanticColors.linkHovered || null);
     }
 
+    // Section backgrounds and Teams themes can change while the page is open (editing a section,
+    // switching the Teams theme); re-render so the shell and the cards pick up the new colors
+    if (this.renderedOnce) {
+      this.render();
+    }
   }
 
   protected onDispose(): void {
@@ -62,7 +101,60 @@ export default class ModernSharePointDashboardWebPart extends BaseClientSideWebP
     return Version.parse('1.0');
   }
 
+  protected onPropertyPaneConfigurationStart(): void {
+    this._loadListOptions('web').catch(console.error);
+    this._loadListOptions('site').catch(console.error);
+  }
+
+  private async _loadListOptions(scope: ListScope): Promise<void> {
+    if (this._listOptions[scope]) {
+      return;
+    }
+
+    const scopeUrl = scope === 'site'
+      ? this.context.pageContext.site.absoluteUrl
+      : this.context.pageContext.web.absoluteUrl;
+
+    try {
+      const response = await this.context.spHttpClient.get(
+        `${scopeUrl}/_api/web/lists?$select=Title&$filter=Hidden eq false and BaseTemplate eq 100&$orderby=Title`,
+        SPHttpClient.configurations.v1
+      );
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const data = await response.json();
+      this._listOptions[scope] = (data.value as { Title: string }[]).map(list => ({
+        key: list.Title,
+        text: list.Title
+      }));
+    } catch (error) {
+      console.error(`Failed to load lists for the ${scope} scope:`, error);
+      this._listOptions[scope] = [];
+    }
+
+    this.context.propertyPane.refresh();
+  }
+
+  // Always offer the configured list, even when it is not in the loaded options
+  private _getListOptions(scope: ListScope, currentListName: string): IPropertyPaneDropdownOption[] {
+    const options = this._listOptions[scope] || [];
+    if (currentListName && !options.some(option => option.key === currentListName)) {
+      return [{ key: currentListName, text: currentListName }, ...options];
+    }
+    return options;
+  }
+
   protected getPropertyPaneConfiguration(): IPropertyPaneConfiguration {
+    const masterListScope = this.properties.masterListScope || 'web';
+    const settingsListScope = this.properties.settingsListScope || 'site';
+    const scopeOptions = [
+      { key: 'web', text: strings.ScopeWebOptionText },
+      { key: 'site', text: strings.ScopeSiteOptionText }
+    ];
+
     return {
       pages: [
         {
@@ -77,6 +169,61 @@ export default class ModernSharePointDashboardWebPart extends BaseClientSideWebP
                   label: strings.DescriptionFieldLabel
                 })
               ]
+            },
+            {
+              groupName: strings.DataSourceGroupName,
+              groupFields: [
+                PropertyPaneChoiceGroup('masterListScope', {
+                  label: strings.MasterListScopeFieldLabel,
+                  options: scopeOptions.map(option => ({ ...option, checked: option.key === masterListScope }))
+                }),
+                PropertyPaneDropdown('masterListName', {
+                  label: strings.MasterListFieldLabel,
+                  options: this._getListOptions(masterListScope, this.properties.masterListName || DEFAULT_MASTER_LIST_NAME),
+                  selectedKey: this.properties.masterListName || DEFAULT_MASTER_LIST_NAME,
+                  disabled: !this._listOptions[masterListScope]
+                }),
+                PropertyPaneChoiceGroup('settingsListScope', {
+                  label: strings.SettingsListScopeFieldLabel,
+                  options: scopeOptions.map(option => ({ ...option, checked: option.key === settingsListScope }))
+                }),
+                PropertyPaneDropdown('settingsListName', {
+                  label: strings.SettingsListFieldLabel,
+                  options: this._getListOptions(settingsListScope, this.properties.settingsListName || DEFAULT_SETTINGS_LIST_NAME),
+                  selectedKey: this.properties.settingsListName || DEFAULT_SETTINGS_LIST_NAME,
+                  disabled: !this._listOptions[settingsListScope]
+                })
+              ]
+            },
+            {
+              groupName: strings.LayoutGroupName,
+              groupFields: [
+                PropertyPaneSlider('slotCount', {
+                  label: strings.SlotCountFieldLabel,
+                  min: 1,
+                  max: 12,
+                  step: 1,
+                  value: this.properties.slotCount || DEFAULT_SLOT_COUNT
+                }),
+                PropertyPaneSlider('columns', {
+                  label: strings.ColumnsFieldLabel,
+                  min: 1,
+                  max: 6,
+                  step: 1,
+                  value: this.properties.columns || DEFAULT_COLUMNS
+                }),
+                PropertyPaneSlider('rows', {
+                  label: strings.RowsFieldLabel,
+                  min: 1,
+                  max: 4,
+                  step: 1,
+                  value: this.properties.rows || DEFAULT_ROWS
+                }),
+                PropertyPaneToggle('hideCustomizeButton', {
+                  label: strings.HideCustomizeButtonFieldLabel,
+                  checked: !!this.properties.hideCustomizeButton
+                })
+              ]
             }
           ]
         }
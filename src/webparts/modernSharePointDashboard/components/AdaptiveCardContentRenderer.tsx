@@ -3,66 +3,60 @@ import { useEffect, useRef, useState } from 'react';
 import { createPortal } from 'react-dom';
 import * as AdaptiveCards from 'adaptivecards';
 import { Template, IEvaluationContext } from 'adaptivecards-templating';
+import { getId } from '@fluentui/react/lib/Utilities';
+import { aggregateChartData, IChartAggregation } from '../utils/chartAggregation';
+import { buildCardHostConfig, CardHostConfig, ICardColors } from '../utils/cardHostConfig';
+import { CardHostConfigContext, useCardHostConfig } from './CardHostConfigContext';
+import { CardIcon, FactSet, ImageSet, Media, RichTextBlock } from './AdaptiveCardElements';
+import { CardMarkdown } from './CardMarkdown';
+import { expandTextFunctions } from '../utils/cardTextFunctions';
+import { AdaptiveCardChartType, ChartDataItem, CustomChartRenderer, IChartSeries, isAdaptiveCardChartType } from './CustomChartRenderer';
+import { IGaugeSegment } from './GaugeChart';
 import {
-  Chart as ChartJS,
-  ArcElement,
-  Tooltip,
-  Legend,
-  Title,
-  CategoryScale,
-  LinearScale,
-  BarElement,
-  PointElement,
-  LineElement,
-  BarController,
-  LineController,
-  PieController,
-  DoughnutController
-} from "chart.js";
-import { Bar, Line, Pie, Doughnut } from 'react-chartjs-2';
-
-// Register required Chart.js components
-ChartJS.register(
-  ArcElement, 
-  Tooltip, 
-  Legend, 
-  Title, 
-  CategoryScale, 
-  LinearScale, 
-  BarElement, 
-  PointElement, 
-  LineElement,
-  BarController,
-  LineController,
-  PieController,
-  DoughnutController
-);
-
-// Set global Chart.js font defaults to Segoe UI
-ChartJS.defaults.font.family = '"Segoe UI", system-ui, sans-serif';
-
-// Chart types
-type AdaptiveCardChartType = "Chart.Donut" | "Chart.Doughnut" | "Chart.Pie" | "Chart.VerticalBar" | "Chart.Bar" | "Chart.HorizontalBar" | "Chart.Line" | "Chart.Gauge";
-type ChartType = 'line' | 'bar' | 'pie' | 'doughnut';
+  CardInputContext,
+  collectInputs,
+  getInitialInputValues,
+  ICardInputContext,
+  InputChoiceSet,
+  InputDate,
+  InputNumber,
+  InputRating,
+  InputText,
+  InputTime,
+  InputToggle,
+  InputValues,
+  validateInputs,
+  withInputValues
+} from './AdaptiveCardInputs';
+
 
 // interface for all adaptive card elements
-interface AdaptiveCardElement {
+export interface AdaptiveCardElement {
   type: string;
-  size?: 'Small' | 'Medium' | 'Large';
+  // Images also take Auto and Stretch; Icon also takes xxSmall to xxLarge and Standard
+  size?: 'Small' | 'Medium' | 'Large' | 'Auto' | 'Stretch' | 'xxSmall' | 'xSmall' | 'Standard' | 'xLarge' | 'xxLarge';
   weight?: 'Normal' | 'Bold' | 'Bolder';
-  color?: 'Dark' | 'Light' | 'Accent';
+  color?: 'Default' | 'Dark' | 'Light' | 'Accent' | 'Good' | 'Warning' | 'Attention';
   wrap?: boolean;
   text?: string;
   title?: string;
   data?: ChartDataItem[];
+  // Computes data from the card's list items ($root) instead of a fixed data array
+  aggregation?: IChartAggregation;
   xAxisTitle?: string;
   yAxisTitle?: string;
+  y2AxisTitle?: string;
+  // Multi-series bar and line charts
+  series?: IChartSeries[];
+  stacked?: boolean;
+  fill?: boolean;
   italic?: boolean;
   underline?: boolean;
   strikethrough?: boolean;
   label?: string;
   placeholder?: string;
-  value?: string;
+  // Input default value, or the reading shown on a Chart.Gauge
+  value?: string | number;
   maxLength?: number;
   isRequired?: boolean;
   choices?: Array<{ title: string; value: string }>;
@@ -77,10 +71,23 @@ interface AdaptiveCardElement {
   spacing?: 'None' | 'Small' | 'Default' | 'Medium' | 'Large' | 'ExtraLarge';
   separator?: boolean;
   height?: 'Auto' | 'Stretch';
-  // ProgressBar properties
-  min?: number;
-  max?: number;
+  // Input validation (isRequired and maxLength are above; min and max also apply to Input.Number)
+  regex?: string;
+  errorMessage?: string;
+  // Input.Toggle values reported when on and off
+  valueOn?: string;
+  valueOff?: string;
+  // ProgressBar properties; Input.Date and Input.Time take min and max as "YYYY-MM-DD" and "HH:mm" strings
+  min?: number | string;
+  max?: number | string;
   progressValue?: number;
+  // Chart.Gauge properties (also uses min, max and value)
+  segments?: IGaugeSegment[];
+  unit?: string;
+  target?: number;
+  subLabel?: string;
+  showMinMax?: boolean;
+  valueFormat?: 'Value' | 'Percentage';
   // CompoundButton properties
   primaryText?: string;
   secondaryText?: string;
@@ -109,47 +116,45 @@ interface AdaptiveCardElement {
   gridStyle?: 'Default' | 'Emphasis' | 'Accent' | 'Good' | 'Attention' | 'Warning' | 'Light' | 'Dark';
   showGridLines?: boolean;
   firstRowAsHeaders?: boolean;
+  // FactSet properties
+  facts?: Array<{ title: string; value: string }>;
+  // ImageSet properties
+  images?: AdaptiveCardElement[];
+  imageSize?: 'Auto' | 'Stretch' | 'Small' | 'Medium' | 'Large';
+  // Media properties
+  sources?: Array<{ mimeType?: string; url: string }>;
+  poster?: string;
+  // RichTextBlock properties
+  inlines?: Array<string | AdaptiveCardElement>;
+  // Icon properties
+  name?: string;
   [key: string]: unknown;
 }
 
-interface AdaptiveCardAction {
+export interface AdaptiveCardAction {
   type: string;
   title?: string;
   url?: string;
+  // Action.Submit / Action.Execute: the author's data, merged with the card's input values by id
   data?: unknown;
+  verb?: string; // For Action.Execute
+  associatedInputs?: 'auto' | 'none';
   content?: AdaptiveCardElement; // For Action.Popover content
   [key: string]: unknown;
 }
 
-interface ChartDataset {
-  label?: string;
-  data: number[];
-  backgroundColor?: string | string[];
-  borderColor?: string | string[];
-  borderWidth?: number;
-  fill?: boolean;
-  tension?: number;
-  hoverOffset?: number;
-  [key: string]: unknown;
-}
-
-interface ChartData {
-  labels: string[];
-  datasets: ChartDataset[];
-}
-
-interface ChartDataItem {
-  legend?: string; // for pie/doughnut/bar/line
-  value?: number;  // for pie/doughnut/bar/line
-  x?: string;      // for bar/line
-  y?: number;      // for bar/line
-}
-
 interface AdaptiveCardContentRendererProps {
   cardJson: string;
   data?: unknown;
-  onActionExecute?: (action: AdaptiveCardAction | AdaptiveCards.Action) => void;
+  // Both renderers report actions in the same plain JSON shape
+  onActionExecute?: (action: AdaptiveCardAction) => void;
   useNativeRenderer?: boolean; // Flag to choose between custom and native renderer
+  // Culture name (such as "en-US") for DATE/TIME functions; defaults to the browser's
+  locale?: string;
+  // Theme-aware host config shared by both renderers; the light default when omitted
+  hostConfig?: CardHostConfig;
+  // Called when the user first changes an input, and with false once the card is rendered afresh
+  onInputsDirtyChange?: (isDirty: boolean) => void;
 }
 
 interface ParsedCard {
@@ -160,235 +165,46 @@ interface ParsedCard {
   $schema?: string;
 }
 
-const colorPalette = [
-  "#FF6384", "#36A2EB", "#FFCE56", "#4BC0C0",
-  "#9966FF", "#FF9F40", "#8BC34A", "#E91E63"
-];
-
-// Custom Chart Renderer Component
-const CustomChartRenderer: React.FC<{
-  title: string;
-  data: ChartDataItem[];
-  type: AdaptiveCardChartType;
-  xAxisTitle?: string;
-  yAxisTitle?: string;
-}> = ({ title, data, type, xAxisTitle, yAxisTitle }) => {
-  // Convert Adaptive Card chart type to internal type
-  const getInternalChartType = (chartType: AdaptiveCardChartType): ChartType => {
-    switch (chartType) {
-      case "Chart.Donut":
-      case "Chart.Doughnut":
-        return "doughnut";
-      case "Chart.Pie":
-        return "pie";
-      case "Chart.VerticalBar":
-      case "Chart.Bar":
-      case "Chart.HorizontalBar":
-        return "bar";
-      case "Chart.Line":
-        return "line";
-      default:
-        return "bar";
-    }
-  };
-
-  const chartType = getInternalChartType(type);
+// Prefix of the ids given to actions the card author left without one
+const GENERATED_ACTION_ID = '__dashboardAction';
 
-  // Process data based on chart type
-  const processData = (): ChartData => {
-    if (chartType === 'bar' || chartType === 'line') {
-      const labels = data.map(item => item.x || item.legend || '');
-      const values = data.map(item => item.y || item.value || 0);
-      
-      return {
-        labels,
-        datasets: [{
-          label: title,
-          data: values,
-          backgroundColor: chartType === 'line' ? 'rgba(54, 162, 235, 0.5)' : colorPalette.map(color => `${color}CC`),
-          borderColor: chartType === 'line' ? colorPalette[0] : colorPalette.map(color => color),
-          borderWidth: 2,
-          fill: chartType === 'line' ? false : true,
-          tension: chartType === 'line' ? 0.1 : undefined
-        }]
-      };
-    } else {
-      // For pie and doughnut charts
-      const labels = data.map(item => item.legend || '');
-      const values = data.map(item => item.value || 0);
-      
-      return {
-        labels,
-        datasets: [{
-          data: values,
-          backgroundColor: colorPalette.slice(0, values.length).map(color => `${color}DD`),
-          borderColor: colorPalette.slice(0, values.length),
-          borderWidth: 1,
-          hoverOffset: 4
-        }]
-      };
-    }
-  };
-
-  const baseOptions = {
-    responsive: true,
-    maintainAspectRatio: false,
-    plugins: {
-      title: {
-        display: !!title,
-        text: title,
-        font: { 
-          size: 16,
-          family: '"Segoe UI", system-ui, sans-serif'
-        }
-      },
-      legend: {
-        position: "right" as const,
-        labels: {
-          font: {
-            family: '"Segoe UI", system-ui, sans-serif'
-          }
-        }
-      },
-      tooltip: {
-        enabled: true,
-        titleFont: {
-          family: '"Segoe UI", system-ui, sans-serif'
-        },
-        bodyFont: {
-          family: '"Segoe UI", system-ui, sans-serif'
-        }
-      }
+// The SDK drops properties it does not know (such as an action's listName), so the native renderer looks
+// actions up in the card JSON by id. Actions without an id get one first, so every action can be found.
+const indexActions = (payload: unknown): Map<string, AdaptiveCardAction> => {
+  const actions = new Map<string, AdaptiveCardAction>();
+  const visit = (node: unknown): void => {
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+      return;
     }
-  } as const;
-
-  const processedData = processData();
-  
-  // Chart.js does not support gauge natively; show a message for Chart.Gauge
-  if (type === "Chart.Gauge") {
-    return (
-      <div style={{ 
-        height: '100%', 
-        display: 'flex', 
-        alignItems: 'center', 
-        justifyContent: 'center',
-        padding: '20px',
-        color: '#605e5c',
-        textAlign: 'center'
-      }}>
-        Gauge charts are not supported in this component.
-      </div>
-    );
-  }
-
-  const chartOptions = type === "Chart.HorizontalBar" ? {
-    ...baseOptions,
-    indexAxis: 'y' as const,
-    scales: {
-      x: {
-        title: { 
-          display: !!xAxisTitle, 
-          text: xAxisTitle || '',
-          font: { 
-            weight: 'bold' as const,
-            family: '"Segoe UI", system-ui, sans-serif'
-          }
-        },
-        ticks: {
-          font: {
-            family: '"Segoe UI", system-ui, sans-serif'
-          }
-        }
-      },
-      y: {
-        title: { 
-          display: !!yAxisTitle, 
-          text: yAxisTitle || '',
-          font: { 
-            weight: 'bold' as const,
-            family: '"Segoe UI", system-ui, sans-serif'
-          }
-        },
-        ticks: {
-          font: {
-            family: '"Segoe UI", system-ui, sans-serif'
-          }
-        }
-      }
+    if (!node || typeof node !== 'object') {
+      return;
     }
-  } : chartType === 'bar' || chartType === 'line' ? {
-    ...baseOptions,
-    scales: {
-      x: {
-        title: { 
-          display: !!xAxisTitle, 
-          text: xAxisTitle || '',
-          font: { 
-            weight: 'bold' as const,
-            family: '"Segoe UI", system-ui, sans-serif'
-          }
-        },
-        ticks: {
-          font: {
-            family: '"Segoe UI", system-ui, sans-serif'
-          }
-        }
-      },
-      y: {
-        title: { 
-          display: !!yAxisTitle, 
-          text: yAxisTitle || '',
-          font: { 
-            weight: 'bold' as const,
-            family: '"Segoe UI", system-ui, sans-serif'
-          }
-        },
-        ticks: {
-          font: {
-            family: '"Segoe UI", system-ui, sans-serif'
-          }
-        },
-        beginAtZero: true
+    const action = node as AdaptiveCardAction;
+    if (typeof action.type === 'string' && action.type.indexOf('Action.') === 0) {
+      if (!action.id) {
+        action.id = `${GENERATED_ACTION_ID}${actions.size}`;
       }
+      actions.set(String(action.id), action);
     }
-  } : baseOptions;
-
-  const renderChart = (): JSX.Element => {
-    switch (chartType) {
-      case "doughnut":
-        return <Doughnut data={processedData} options={chartOptions} />;
-      case "pie":
-        return <Pie data={processedData} options={chartOptions} />;
-      case "bar":
-        return <Bar data={processedData} options={chartOptions} />;
-      case "line":
-        return <Line data={processedData} options={chartOptions} />;
-      default:
-        return <Bar data={processedData} options={chartOptions} />;
-    }
+    Object.keys(node).forEach(key => visit((node as { [key: string]: unknown })[key]));
   };
-
-  return (
-    <div style={{ 
-      width: '100%', 
-      height: '100%', 
-      position: 'relative',
-      display: 'flex',
-      justifyContent: 'center',
-      alignItems: 'center'
-    }}>
-      {renderChart()}
-    </div>
-  );
+  visit(payload);
+  return actions;
 };
 
 // Native Adaptive Card Renderer Component
 const NativeAdaptiveCardRenderer: React.FC<{
   cardJson: string;
   data?: unknown;
-  onActionExecute?: (action: AdaptiveCards.Action) => void;
-}> = ({ cardJson, data, onActionExecute }) => {
+  onActionExecute?: (action: AdaptiveCardAction) => void;
+  hostConfig: CardHostConfig;
+  onInputsDirtyChange?: (isDirty: boolean) => void;
+}> = ({ cardJson, data, onActionExecute, hostConfig, onInputsDirtyChange }) => {
   const cardContainerRef = useRef<HTMLDivElement>(null);
+  // Read through a ref so a new callback does not render the card (and clear its inputs) again
+  const onInputsDirtyChangeRef = useRef(onInputsDirtyChange);
+  onInputsDirtyChangeRef.current = onInputsDirtyChange;
 
   useEffect(() => {
     if (!cardContainerRef.current || !cardJson) {
@@ -399,125 +215,8 @@ const NativeAdaptiveCardRenderer: React.FC<{
       // Create an AdaptiveCard instance
       const adaptiveCard = new AdaptiveCards.AdaptiveCard();
 
-      // Set the host config for styling
-      adaptiveCard.hostConfig = new AdaptiveCards.HostConfig({
-        spacing: {
-          small: 4,
-          default: 8,
-          medium: 16,
-          large: 24,
-          extraLarge: 32,
-          padding: 16
-        },
-        separator: {
-          lineThickness: 1,
-          lineColor: "#EEEEEE"
-        },
-        supportsInteractivity: true,
-        fontFamily: "Segoe UI, system-ui, sans-serif",
-        fontSizes: {
-          small: 12,
-          default: 14,
-          medium: 17,
-          large: 21,
-          extraLarge: 26
-        },
-        fontWeights: {
-          lighter: 200,
-          default: 400,
-          bolder: 600
-        },
-        containerStyles: {
-          default: {
-            backgroundColor: "#FFFFFF",
-            foregroundColors: {
-              default: {
-                default: "#333333",
-                subtle: "#EE333333"
-              },
-              accent: {
-                default: "#0078D4",
-                subtle: "#880078D4"
-              },
-              attention: {
-                default: "#CC3300",
-                subtle: "#DDCC3300"
-              },
-              good: {
-                default: "#54A254",
-                subtle: "#DD54A254"
-              },
-              warning: {
-                default: "#E69500",
-                subtle: "#DDE69500"
-              }
-            }
-          },
-          emphasis: {
-            backgroundColor: "#F3F2F1",
-            foregroundColors: {
-              default: {
-                default: "#333333",
-                subtle: "#EE333333"
-              },
-              accent: {
-                default: "#0078D4",
-                subtle: "#880078D4"
-              }
-            }
-          }
-        },
-        imageSizes: {
-          small: 40,
-          medium: 80,
-          large: 160
-        },
-        actions: {
-          maxActions: 5,
-          spacing: "default",
-          buttonSpacing: 10,
-          showCard: {
-            actionMode: "inline",
-            inlineTopMargin: 16
-          },
-          actionsOrientation: "horizontal",
-          actionAlignment: "left"
-        },
-        adaptiveCard: {
-          allowCustomStyle: false
-        },
-        imageSet: {
-          imageSize: "medium",
-          maxImageHeight: 100
-        },
-        media: {
-          defaultPoster: "",
-          allowInlinePlayback: false
-        },
-        factSet: {
-          title: {
-            color: "default",
-            size: "default",
-            isSubtle: false,
-            weight: "bolder",
-            wrap: true,
-            maxWidth: 150
-          },
-          value: {
-            color: "default",
-            size: "default",
-            isSubtle: false,
-            weight: "default",
-            wrap: true
-          },
-          spacing: 10
-        }
-      });
-
-      // Set up action handling
-      if (onActionExecute) {
-        adaptiveCard.onExecuteAction = onActionExecute;
-      }
+      // Set the host config for styling; the custom elements read the same values
+      adaptiveCard.hostConfig = new AdaptiveCards.HostConfig(hostConfig);
 
       let cardPayload: unknown;
 
@@ -531,9 +230,34 @@ const NativeAdaptiveCardRenderer: React.FC<{
       } else {
         cardPayload = JSON.parse(cardJson);
       }
+      const actionsById = indexActions(cardPayload);
+
+      // Set up action handling; report actions as plain JSON like the custom renderer does
+      adaptiveCard.onExecuteAction = (action: AdaptiveCards.Action) => {
+        const actionJson: AdaptiveCardAction = {
+          ...(action.toJSON() as AdaptiveCardAction),
+          ...actionsById.get(action.id),
+          type: action.getJsonTypeName(),
+          // Submit and Execute data already includes the input values at this point
+          data: (action as AdaptiveCards.SubmitAction).data
+        };
+        if (String(actionJson.id).indexOf(GENERATED_ACTION_ID) === 0) {
+          delete actionJson.id;
+        }
+        if (actionJson.type === 'Action.OpenUrl') {
+          const url = (action as AdaptiveCards.OpenUrlAction).url;
+          if (url) {
+            window.open(url, '_blank', 'noopener,noreferrer');
+          }
+          return;
+        }
+        onActionExecute?.(actionJson);
+      };
 
       // Parse the card payload
       adaptiveCard.parse(cardPayload);
+      adaptiveCard.onInputValueChanged = () => onInputsDirtyChangeRef.current?.(true);
+      onInputsDirtyChangeRef.current?.(false);
 
       // Clear the container and render the card
       cardContainerRef.current.innerHTML = '';
@@ -548,15 +272,16 @@ const NativeAdaptiveCardRenderer: React.FC<{
       
       // Show error message in the container
       if (cardContainerRef.current) {
+        const { colors } = hostConfig;
         cardContainerRef.current.innerHTML = `
-          <div style="padding: 16px; color: #a4262c; background-color: #fdf2f2; border: 1px solid #d13438; border-radius: 2px;">
+          <div style="padding: 16px; color: ${colors.attention}; background-color: ${colors.attentionBackground}; border: 1px solid ${colors.attention}; border-radius: 2px;">
             <strong>Error rendering card:</strong><br/>
             ${error instanceof Error ? error.message : 'Unknown error'}
           </div>
         `;
       }
     }
-  }, [cardJson, data, onActionExecute]);
+  }, [cardJson, data, onActionExecute, hostConfig]);
 
   return (
     <div 
@@ -570,8 +295,17 @@ const NativeAdaptiveCardRenderer: React.FC<{
   );
 };
 
+const getTextColor = (colors: ICardColors, color?: string): string =>
+  color === 'Light' ? colors.subtleText :
+  color === 'Accent' ? colors.accent :
+  color === 'Attention' ? colors.attention :
+  color === 'Good' ? colors.good :
+  color === 'Warning' ? colors.warning : colors.text;
+
 // Memoized Text Components
-const TextBlock = React.memo(({ element }: { element: AdaptiveCardElement }) => {
+// TextBlock supports the markdown subset; TextRun is styled by its own properties, as in the Adaptive Cards schema
+const TextBlock = React.memo(({ element, locale }: { element: AdaptiveCardElement; locale?: string }) => {
+  const { colors } = useCardHostConfig();
   const fontSize = element.size === 'Large' ? '20px' : 
                   element.size === 'Medium' ? '16px' : 
                   element.size === 'Small' ? '12px' : '14px';
@@ -579,9 +313,7 @@ const TextBlock = React.memo(({ element }: { element: AdaptiveCardElement }) =>
   const fontWeight = element.weight === 'Bolder' ? 'bold' : 
                     element.weight === 'Bold' ? '600' : 'normal';
   
-  const color = element.color === 'Dark' ? '#323130' : 
-                element.color === 'Light' ? '#605e5c' : 
-                element.color === 'Accent' ? '#0078d4' : '#323130';
+  const color = getTextColor(colors, element.color);
 
   const textAlign = element.horizontalAlignment === 'Center' ? 'center' :
                    element.horizontalAlignment === 'Right' ? 'right' : 'left';
@@ -594,16 +326,17 @@ const TextBlock = React.memo(({ element }: { element: AdaptiveCardElement }) =>
       textAlign,
       marginBottom: element.spacing === 'Large' ? '16px' : '8px',
       marginTop: element.separator ? '16px' : '0',
-      borderTop: element.separator ? '1px solid #e1dfdd' : 'none',
+      borderTop: element.separator ? `1px solid ${colors.border}` : 'none',
       paddingTop: element.separator ? '16px' : '0',
       wordWrap: element.wrap ? 'break-word' : 'normal'
     }}>
-      {element.text}
+      <CardMarkdown text={expandTextFunctions(element.text || '', locale)} />
     </div>
   );
 });
 
-const TextRun = React.memo(({ element }: { element: AdaptiveCardElement }) => {
+const TextRun = React.memo(({ element, locale }: { element: AdaptiveCardElement; locale?: string }) => {
+  const { colors } = useCardHostConfig();
   const fontSize = element.size === 'Large' ? '20px' : 
                   element.size === 'Medium' ? '16px' : 
                   element.size === 'Small' ? '12px' : '14px';
@@ -611,9 +344,7 @@ const TextRun = React.memo(({ element }: { element: AdaptiveCardElement }) => {
   const fontWeight = element.weight === 'Bolder' ? 'bold' : 
                     element.weight === 'Bold' ? '600' : 'normal';
   
-  const color = element.color === 'Dark' ? '#323130' : 
-                element.color === 'Light' ? '#605e5c' : 
-                element.color === 'Accent' ? '#0078d4' : '#323130';
+  const color = getTextColor(colors, element.color);
 
   const textDecoration = element.underline ? 'underline' : 
                         element.strikethrough ? 'line-through' : 'none';
@@ -626,170 +357,35 @@ const TextRun = React.memo(({ element }: { element: AdaptiveCardElement }) => {
       fontStyle: element.italic ? 'italic' : 'normal',
       textDecoration
     }}>
-      {element.text}
+      {expandTextFunctions(element.text || '', locale)}
     </span>
   );
 });
 
-// Input Components
-const InputText = React.memo(({ element }: { element: AdaptiveCardElement }) => (
-  <div style={{ marginBottom: '12px' }}>
-    {element.label && (
-      <label style={{ 
-        display: 'block', 
-        marginBottom: '4px', 
-        fontSize: '14px',
-        fontWeight: '600',
-        color: '#323130' 
-      }}>
-        {element.label}
-        {element.isRequired && <span style={{ color: '#a4262c' }}>*</span>}
-      </label>
-    )}
-    <input
-      type="text"
-      placeholder={element.placeholder || ''}
-      defaultValue={element.value || ''}
-      maxLength={element.maxLength}
-      required={element.isRequired}
-      style={{
-        width: '100%',
-        padding: '8px 12px',
-        border: '1px solid #8a8886',
-        borderRadius: '2px',
-        fontSize: '14px',
-        fontFamily: '"Segoe UI", system-ui, sans-serif',
-        outline: 'none'
-      }}
-    />
-  </div>
-));
-
-const InputNumber = React.memo(({ element }: { element: AdaptiveCardElement }) => (
-  <div style={{ marginBottom: '12px' }}>
-    {element.label && (
-      <label style={{ 
-        display: 'block', 
-        marginBottom: '4px', 
-        fontSize: '14px',
-        fontWeight: '600',
-        color: '#323130' 
-      }}>
-        {element.label}
-        {element.isRequired && <span style={{ color: '#a4262c' }}>*</span>}
-      </label>
-    )}
-    <input
-      type="number"
-      placeholder={element.placeholder || ''}
-      defaultValue={element.value || ''}
-      required={element.isRequired}
-      style={{
-        width: '100%',
-        padding: '8px 12px',
-        border: '1px solid #8a8886',
-        borderRadius: '2px',
-        fontSize: '14px',
-        fontFamily: '"Segoe UI", system-ui, sans-serif',
-        outline: 'none'
-      }}
-    />
-  </div>
-));
-
-const InputChoiceSet = React.memo(({ element }: { element: AdaptiveCardElement }) => {
-  const isExpanded = element.style === 'expanded';
-  
-  if (isExpanded) {
-    return (
-      <div style={{ marginBottom: '12px' }}>
-        {element.label && (
-          <label style={{ 
-            display: 'block', 
-            marginBottom: '8px', 
-            fontSize: '14px',
-            fontWeight: '600',
-            color: '#323130' 
-          }}>
-            {element.label}
-            {element.isRequired && <span style={{ color: '#a4262c' }}>*</span>}
-          </label>
-        )}
-        {element.choices?.map((choice, index) => (
-          <div key={index} style={{ marginBottom: '8px' }}>
-            <label style={{ display: 'flex', alignItems: 'center', cursor: 'pointer' }}>
-              <input
-                type={element.isMultiSelect ? 'checkbox' : 'radio'}
-                name={`choice-${element.title || 'choice'}`}
-                value={choice.value}
-                style={{ marginRight: '8px' }}
-              />
-              <span style={{ fontSize: '14px', color: '#323130' }}>{choice.title}</span>
-            </label>
-          </div>
-        ))}
-      </div>
-    );
-  }
+// Container Components
+const Container = React.memo(({ element, renderElement }: { 
+  element: AdaptiveCardElement; 
+  renderElement: (elem: AdaptiveCardElement) => JSX.Element;
+}) => {
+  const { colors } = useCardHostConfig();
 
   return (
-    <div style={{ marginBottom: '12px' }}>
-      {element.label && (
-        <label style={{ 
-          display: 'block', 
-          marginBottom: '4px', 
-          fontSize: '14px',
-          fontWeight: '600',
-          color: '#323130' 
-        }}>
-          {element.label}
-          {element.isRequired && <span style={{ color: '#a4262c' }}>*</span>}
-        </label>
-      )}
-      <select
-        required={element.isRequired}
-        multiple={element.isMultiSelect}
-        style={{
-          width: '100%',
-          padding: '8px 12px',
-          border: '1px solid #8a8886',
-          borderRadius: '2px',
-          fontSize: '14px',
-          fontFamily: '"Segoe UI", system-ui, sans-serif',
-          backgroundColor: '#ffffff',
-          outline: 'none'
-        }}
-      >
-        {element.choices?.map((choice, index) => (
-          <option key={index} value={choice.value}>
-            {choice.title}
-          </option>
-        ))}
-      </select>
+    <div style={{
+      padding: '12px',
+      border: `1px solid ${colors.border}`,
+      borderRadius: '4px',
+      marginBottom: '12px',
+      backgroundColor: colors.emphasisBackground
+    }}>
+      {element.items?.map((item, index) => (
+        <div key={index}>
+          {renderElement(item)}
+        </div>
+      ))}
     </div>
   );
 });
 
-// Container Components
-const Container = React.memo(({ element, renderElement }: { 
-  element: AdaptiveCardElement; 
-  renderElement: (elem: AdaptiveCardElement) => JSX.Element;
-}) => (
-  <div style={{
-    padding: '12px',
-    border: '1px solid #e1dfdd',
-    borderRadius: '4px',
-    marginBottom: '12px',
-    backgroundColor: '#faf9f8'
-  }}>
-    {element.items?.map((item, index) => (
-      <div key={index}>
-        {renderElement(item)}
-      </div>
-    ))}
-  </div>
-));
-
 const ColumnSet = React.memo(({ element, renderElement }: { 
   element: AdaptiveCardElement; 
   renderElement: (elem: AdaptiveCardElement) => JSX.Element;
@@ -830,21 +426,39 @@ const Image = React.memo(({ element }: { element: AdaptiveCardElement }) => (
   </div>
 ));
 
-const ChartRenderer = React.memo(({ element }: { element: AdaptiveCardElement }) => (
+const ChartRenderer = React.memo(({ element, data }: { element: AdaptiveCardElement; data?: unknown }) => (
   <div style={{ height: '300px', marginBottom: '16px' }}>
     <CustomChartRenderer
       title={element.title || ''}
-      data={element.data || []}
+      data={element.aggregation
+        ? aggregateChartData(Array.isArray(data) ? data : [], element.aggregation)
+        : element.data || []}
       type={(element.type as AdaptiveCardChartType) || 'Chart.Bar'}
       xAxisTitle={element.xAxisTitle || ''}
       yAxisTitle={element.yAxisTitle || ''}
+      y2AxisTitle={element.y2AxisTitle || ''}
+      series={element.series}
+      stacked={element.stacked}
+      fill={element.fill}
+      gauge={{
+        min: element.min !== undefined ? Number(element.min) : undefined,
+        max: element.max !== undefined ? Number(element.max) : undefined,
+        value: element.value,
+        segments: element.segments,
+        unit: element.unit,
+        target: element.target,
+        subLabel: element.subLabel,
+        showMinMax: element.showMinMax,
+        valueFormat: element.valueFormat
+      }}
     />
   </div>
 ));
 
 const ProgressBar = React.memo(({ element }: { element: AdaptiveCardElement }) => {
-  const min = element.min ?? 0;
-  const max = element.max ?? 100;
+  const { colors } = useCardHostConfig();
+  const min = Number(element.min ?? 0);
+  const max = Number(element.max ?? 100);
   const value = element.progressValue ?? 0;
   
   // Ensure value is within bounds
@@ -855,7 +469,7 @@ const ProgressBar = React.memo(({ element }: { element: AdaptiveCardElement }) =
     <div style={{ 
       marginBottom: '12px',
       marginTop: element.separator ? '16px' : '0',
-      borderTop: element.separator ? '1px solid #e1dfdd' : 'none',
+      borderTop: element.separator ? `1px solid ${colors.border}` : 'none',
       paddingTop: element.separator ? '16px' : '0'
     }}>
       {element.title && (
@@ -863,7 +477,7 @@ const ProgressBar = React.memo(({ element }: { element: AdaptiveCardElement }) =
           marginBottom: '8px', 
           fontSize: '14px',
           fontWeight: '600',
-          color: '#323130'
+          color: colors.text
         }}>
           {element.title}
         </div>
@@ -871,15 +485,15 @@ const ProgressBar = React.memo(({ element }: { element: AdaptiveCardElement }) =
       <div style={{
         width: '100%',
         height: '8px',
-        backgroundColor: '#f3f2f1',
+        backgroundColor: colors.emphasisBackground,
         borderRadius: '4px',
         overflow: 'hidden',
-        border: '1px solid #edebe9'
+        border: `1px solid ${colors.border}`
       }}>
         <div style={{
           width: `${percentage}%`,
           height: '100%',
-          backgroundColor: '#0078d4',
+          backgroundColor: colors.accent,
           borderRadius: '3px',
           transition: 'width 0.3s ease-in-out'
         }} />
@@ -889,7 +503,7 @@ const ProgressBar = React.memo(({ element }: { element: AdaptiveCardElement }) =
         justifyContent: 'space-between',
         marginTop: '4px',
         fontSize: '12px',
-        color: '#605e5c'
+        color: colors.subtleText
       }}>
         <span>{min}</span>
         <span>{clampedValue} / {max}</span>
@@ -901,6 +515,7 @@ const ProgressBar = React.memo(({ element }: { element: AdaptiveCardElement }) =
 
 // CompoundButton Component
 const CompoundButton = React.memo(({ element }: { element: AdaptiveCardElement }) => {
+  const { colors } = useCardHostConfig();
   const [isPressed, setIsPressed] = useState(false);
   const [isHovered, setIsHovered] = useState(false);
   
@@ -925,17 +540,17 @@ const CompoundButton = React.memo(({ element }: { element: AdaptiveCardElement }
       display: 'flex',
       alignItems: 'center',
       padding: '12px 16px',
-      border: '1px solid #8a8886',
+      border: `1px solid ${colors.inputBorder}`,
       borderRadius: '4px',
-      backgroundColor: '#ffffff',
+      backgroundColor: colors.background,
       cursor: element.disabled ? 'not-allowed' : 'pointer',
       fontFamily: '"Segoe UI", system-ui, sans-serif',
       fontSize: '14px',
-      color: element.disabled ? '#a6a6a6' : '#323130',
+      color: element.disabled ? colors.disabledText : colors.text,
       transition: 'all 0.2s ease',
       marginBottom: element.spacing === 'Large' ? '16px' : '8px',
       marginTop: element.separator ? '16px' : '0',
-      borderTop: element.separator ? '2px solid #e1dfdd' : undefined,
+      borderTop: element.separator ? `2px solid ${colors.border}` : undefined,
       paddingTop: element.separator ? '16px' : '12px',
       opacity: element.disabled ? 0.6 : 1,
       minHeight: '52px',
@@ -948,46 +563,46 @@ const CompoundButton = React.memo(({ element }: { element: AdaptiveCardElement }
     // Apply hover and pressed states
     if (!element.disabled) {
       if (isPressed) {
-        baseStyle.backgroundColor = '#f3f2f1';
-        baseStyle.borderColor = '#605e5c';
+        baseStyle.backgroundColor = colors.emphasisBackground;
+        baseStyle.borderColor = colors.subtleText;
         baseStyle.transform = 'scale(0.98)';
       } else if (isHovered) {
-        baseStyle.backgroundColor = '#f8f8f8';
-        baseStyle.borderColor = '#605e5c';
+        baseStyle.backgroundColor = colors.emphasisBackground;
+        baseStyle.borderColor = colors.subtleText;
         baseStyle.boxShadow = '0 2px 4px rgba(0,0,0,0.1)';
       }
     }
 
     // Handle checked state
     if (element.checked) {
-      baseStyle.backgroundColor = '#deecf9';
-      baseStyle.borderColor = '#0078d4';
-      baseStyle.color = '#005a9e';
+      baseStyle.backgroundColor = colors.accentBackground;
+      baseStyle.borderColor = colors.accent;
+      baseStyle.color = colors.accent;
     }
 
     // Handle different button styles
     if (element.style) {
       switch (element.style.toLowerCase()) {
         case 'emphasis':
-          baseStyle.backgroundColor = element.checked ? '#c7e0f4' : '#f3f2f1';
-          baseStyle.borderColor = '#8a8886';
+          baseStyle.backgroundColor = element.checked ? colors.accentBackground : colors.emphasisBackground;
+          baseStyle.borderColor = colors.inputBorder;
           break;
         case 'positive':
         case 'good':
-          baseStyle.backgroundColor = element.checked ? '#c6efce' : '#f3f9f4';
-          baseStyle.borderColor = '#107c10';
-          baseStyle.color = element.disabled ? '#a6a6a6' : '#107c10';
+          baseStyle.backgroundColor = element.checked ? colors.goodBackground : colors.background;
+          baseStyle.borderColor = colors.good;
+          baseStyle.color = element.disabled ? colors.disabledText : colors.good;
           break;
         case 'attention':
         case 'warning':
-          baseStyle.backgroundColor = element.checked ? '#fff4ce' : '#fffef5';
-          baseStyle.borderColor = '#ffb900';
-          baseStyle.color = element.disabled ? '#a6a6a6' : '#8a6e00';
+          baseStyle.backgroundColor = element.checked ? colors.warningBackground : colors.background;
+          baseStyle.borderColor = colors.warning;
+          baseStyle.color = element.disabled ? colors.disabledText : colors.warning;
           break;
         case 'destructive':
-          baseStyle.backgroundColor = element.checked ? '#fde7e9' : '#fef6f6';
-          baseStyle.borderColor = '#d13438';
-          baseStyle.color = element.disabled ? '#a6a6a6' : '#d13438';
+          baseStyle.backgroundColor = element.checked ? colors.attentionBackground : colors.background;
+          baseStyle.borderColor = colors.attention;
+          baseStyle.color = element.disabled ? colors.disabledText : colors.attention;
           break;
       }
     }
@@ -1111,7 +726,7 @@ const CompoundButton = React.memo(({ element }: { element: AdaptiveCardElement }
             <div style={{
               fontSize: '12px',
               lineHeight: '16px',
-              color: element.disabled ? '#a6a6a6' : '#605e5c',
+              color: element.disabled ? colors.disabledText : colors.subtleText,
               fontWeight: '400'
             }}>
               {element.secondaryText}
@@ -1123,7 +738,7 @@ const CompoundButton = React.memo(({ element }: { element: AdaptiveCardElement }
         {element.checked && (
           <div style={{
             marginLeft: '8px',
-            color: '#0078d4',
+            color: colors.accent,
             fontSize: '14px',
             fontWeight: 'bold'
           }}>
@@ -1149,39 +764,67 @@ const Table = React.memo(({ element, renderElement }: {
   element: AdaptiveCardElement; 
   renderElement: (elem: AdaptiveCardElement) => JSX.Element;
 }) => {
+  const { colors } = useCardHostConfig();
+
+  // Every style takes its colors from the theme: the tinted styles from its tinted backgrounds, and Dark
+  // by swapping the text and background colors. Header rows and alternate rows stand out from the body.
   const getGridStyle = (gridStyle: string = 'Default') => {
-    const styleMap: { [key: string]: React.CSSProperties } = {
+    const styleMap: { [key: string]: React.CSSProperties & { headerBackground: string; stripeBackground: string } } = {
       'Default': {
-        backgroundColor: '#ffffff',
-        borderColor: '#e1dfdd'
+        backgroundColor: colors.background,
+        borderColor: colors.border,
+        color: colors.text,
+        headerBackground: colors.emphasisBackground,
+        stripeBackground: colors.emphasisBackground
       },
       'Emphasis': {
-        backgroundColor: '#f3f2f1',
-        borderColor: '#d2d0ce'
+        backgroundColor: colors.emphasisBackground,
+        borderColor: colors.border,
+        color: colors.text,
+        headerBackground: colors.emphasisBackground,
+        stripeBackground: colors.emphasisBackground
       },
       'Accent': {
-        backgroundColor: '#deecf9',
-        borderColor: '#0078d4'
+        backgroundColor: colors.accentBackground,
+        borderColor: colors.accent,
+        color: colors.text,
+        headerBackground: colors.accentBackground,
+        stripeBackground: colors.background
       },
       'Good': {
-        backgroundColor: '#dff6dd',
-        borderColor: '#107c10'
+        backgroundColor: colors.goodBackground,
+        borderColor: colors.good,
+        color: colors.text,
+        headerBackground: colors.goodBackground,
+        stripeBackground: colors.background
       },
       'Attention': {
-        backgroundColor: '#fff4ce',
-        borderColor: '#ffb900'
+        backgroundColor: colors.attentionBackground,
+        borderColor: colors.attention,
+        color: colors.text,
+        headerBackground: colors.attentionBackground,
+        stripeBackground: colors.background
       },
       'Warning': {
-        backgroundColor: '#fed9cc',
-        borderColor: '#d83b01'
+        backgroundColor: colors.warningBackground,
+        borderColor: colors.warning,
+        color: colors.text,
+        headerBackground: colors.warningBackground,
+        stripeBackground: colors.background
       },
       'Light': {
-        backgroundColor: '#faf9f8',
-        borderColor: '#edebe9'
+        backgroundColor: colors.emphasisBackground,
+        borderColor: colors.border,
+        color: colors.text,
+        headerBackground: colors.emphasisBackground,
+        stripeBackground: colors.emphasisBackground
       },
       'Dark': {
-        backgroundColor: '#323130',
-        borderColor: '#605e5c'
+        backgroundColor: colors.text,
+        borderColor: colors.subtleText,
+        color: colors.background,
+        headerBackground: colors.subtleText,
+        stripeBackground: colors.text
       }
     };
     return styleMap[gridStyle] || styleMap['Default'];
@@ -1203,7 +846,7 @@ const Table = React.memo(({ element, renderElement }: {
     }
   };
 
-  const gridStyle = getGridStyle(element.gridStyle);
+  const { headerBackground, stripeBackground, ...gridStyle } = getGridStyle(element.gridStyle);
   const showGridLines = element.showGridLines !== false; // Default to true
   const firstRowAsHeaders = element.firstRowAsHeaders !== false; // Default to true
 
@@ -1214,7 +857,7 @@ const Table = React.memo(({ element, renderElement }: {
     fontSize: '14px',
     marginBottom: element.spacing === 'Large' ? '16px' : '8px',
     marginTop: element.separator ? '16px' : '0',
-    borderTop: element.separator ? '2px solid #e1dfdd' : 'none',
+    borderTop: element.separator ? `2px solid ${colors.border}` : 'none',
     ...gridStyle,
     border: showGridLines ? `1px solid ${gridStyle.borderColor}` : 'none'
   };
@@ -1222,8 +865,8 @@ const Table = React.memo(({ element, renderElement }: {
   const headerCellStyle: React.CSSProperties = {
     padding: '12px 16px',
     fontWeight: '600',
-    backgroundColor: element.gridStyle === 'Dark' ? '#484644' : '#f8f7f6',
-    color: element.gridStyle === 'Dark' ? '#ffffff' : '#323130',
+    backgroundColor: headerBackground,
+    color: gridStyle.color,
     border: showGridLines ? `1px solid ${gridStyle.borderColor}` : 'none',
     textAlign: 'left',
     verticalAlign: 'middle'
@@ -1232,7 +875,7 @@ const Table = React.memo(({ element, renderElement }: {
   const cellStyle: React.CSSProperties = {
     padding: '12px 16px',
     border: showGridLines ? `1px solid ${gridStyle.borderColor}` : 'none',
-    color: element.gridStyle === 'Dark' ? '#ffffff' : '#323130',
+    color: gridStyle.color,
     verticalAlign: 'top'
   };
 
@@ -1265,7 +908,7 @@ const Table = React.memo(({ element, renderElement }: {
       overflowX: 'auto',
       marginBottom: '12px',
       marginTop: element.separator ? '16px' : '0',
-      borderTop: element.separator ? '2px solid #e1dfdd' : 'none',
+      borderTop: element.separator ? `2px solid ${colors.border}` : 'none',
       paddingTop: element.separator ? '16px' : '0'
     }}>
       <table style={tableStyle}>
@@ -1315,8 +958,7 @@ const Table = React.memo(({ element, renderElement }: {
 
             return (
               <tr key={rowIndex} style={{
-                backgroundColor: rowIndex % 2 === 0 ? 'transparent' : 
-                  (element.gridStyle === 'Dark' ? '#3c3a39' : '#faf9f8')
+                backgroundColor: rowIndex % 2 === 0 ? 'transparent' : stripeBackground
               }}>
                 {row.cells?.map((cell, cellIndex) => (
                   <td
@@ -1341,7 +983,7 @@ const Table = React.memo(({ element, renderElement }: {
         <div style={{
           padding: '20px',
           textAlign: 'center',
-          color: element.gridStyle === 'Dark' ? '#ffffff' : '#605e5c',
+          color: element.gridStyle === 'Dark' ? gridStyle.color : colors.subtleText,
           fontStyle: 'italic',
           backgroundColor: gridStyle.backgroundColor,
           border: showGridLines ? `1px solid ${gridStyle.borderColor}` : 'none',
@@ -1359,6 +1001,7 @@ const PopoverRenderer = React.memo(({ action, renderElement }: {
   action: AdaptiveCardAction; 
   renderElement: (elem: AdaptiveCardElement) => JSX.Element;
 }) => {
+  const { colors } = useCardHostConfig();
   const [open, setOpen] = useState(false);
   const buttonRef = useRef<HTMLButtonElement>(null);
   const popoverRef = useRef<HTMLDivElement>(null);
@@ -1427,8 +1070,8 @@ const PopoverRenderer = React.memo(({ action, renderElement }: {
           maxWidth: '800px',
           minWidth: '400px',
           maxHeight: '90vh',
-          backgroundColor: '#ffffff',
-          border: '1px solid #8a8886',
+          backgroundColor: colors.background,
+          border: `1px solid ${colors.inputBorder}`,
           borderRadius: '8px',
           boxShadow: '0 16px 48px rgba(0,0,0,0.25), 0 0 0 1px rgba(0,0,0,0.05)',
           zIndex: 10000,
@@ -1465,14 +1108,14 @@ const PopoverRenderer = React.memo(({ action, renderElement }: {
           justifyContent: 'space-between',
           alignItems: 'center',
           padding: '16px 20px',
-          borderBottom: '1px solid #edebe9',
+          borderBottom: `1px solid ${colors.border}`,
           flexShrink: 0
         }}>
           <h3 style={{
             margin: 0,
             fontSize: '18px',
             fontWeight: '600',
-            color: '#323130',
+            color: colors.text,
             fontFamily: '"Segoe UI", system-ui, sans-serif'
           }}>
             {action.title || 'Popover Content'}
@@ -1484,7 +1127,7 @@ const PopoverRenderer = React.memo(({ action, renderElement }: {
               border: 'none',
               fontSize: '20px',
               cursor: 'pointer',
-              color: '#605e5c',
+              color: colors.subtleText,
               padding: '4px',
               borderRadius: '2px',
               lineHeight: 1,
@@ -1497,12 +1140,12 @@ const PopoverRenderer = React.memo(({ action, renderElement }: {
               transition: 'all 0.2s ease'
             }}
             onMouseEnter={(e) => {
-              e.currentTarget.style.backgroundColor = '#f3f2f1';
-              e.currentTarget.style.color = '#323130';
+              e.currentTarget.style.backgroundColor = colors.emphasisBackground;
+              e.currentTarget.style.color = colors.text;
             }}
             onMouseLeave={(e) => {
               e.currentTarget.style.backgroundColor = 'transparent';
-              e.currentTarget.style.color = '#605e5c';
+              e.currentTarget.style.color = colors.subtleText;
             }}
             title="Close popover"
             aria-label="Close popover"
@@ -1521,7 +1164,7 @@ const PopoverRenderer = React.memo(({ action, renderElement }: {
           {action.content && renderElement(action.content)}
           {!action.content && (
             <div style={{ 
-              color: '#605e5c', 
+              color: colors.subtleText, 
               fontStyle: 'italic',
               fontFamily: '"Segoe UI", system-ui, sans-serif',
               textAlign: 'center',
@@ -1543,9 +1186,9 @@ const PopoverRenderer = React.memo(({ action, renderElement }: {
         onClick={handleButtonClick}
         style={{
           padding: '8px 16px',
-          backgroundColor: open ? '#c73e00' : '#d83b01',
-          color: '#ffffff',
-          border: '1px solid #d83b01',
+          backgroundColor: open ? colors.warningBackground : colors.background,
+          color: colors.warning,
+          border: `1px solid ${colors.warning}`,
           borderRadius: '2px',
           fontSize: '14px',
           cursor: 'pointer',
@@ -1571,6 +1214,9 @@ const ActionSet = React.memo(({ element, onActionExecute, renderElement }: {
   onActionExecute?: (action: AdaptiveCardAction) => void;
   renderElement?: (elem: AdaptiveCardElement) => JSX.Element;
 }) => {
+  const { values, validate } = React.useContext(CardInputContext);
+  const { colors } = useCardHostConfig();
+
   const handleActionClick = (action: AdaptiveCardAction) => {
     switch (action.type) {
       case 'Action.OpenUrl':
@@ -1585,58 +1231,54 @@ const ActionSet = React.memo(({ element, onActionExecute, renderElement }: {
         break;
       case 'Action.Execute':
         // Handle execute action - typically for custom functionality
-        console.log('Execute action triggered:', action);
-        onActionExecute?.(action);
+        if (action.associatedInputs === 'none' || validate()) {
+          onActionExecute?.(withInputValues(action, values));
+        }
         break;
       case 'Action.Popover':
         // Popover is handled by PopoverRenderer component directly
         console.log('Popover action triggered:', action);
         break;
       case 'Action.Submit':
+        // Invalid inputs block the action; validate() also reveals their messages
+        if (action.associatedInputs === 'none' || validate()) {
+          onActionExecute?.(withInputValues(action, values));
+        }
+        break;
       default:
-        // Handle submit and other actions through the callback
+        // Handle other actions through the callback
         onActionExecute?.(action);
         break;
     }
   };
 
+  // Actions that send the inputs are primary buttons; the others are outlined in a color for their type
+  const getOutlinedButtonStyle = (color: string): React.CSSProperties => ({
+    backgroundColor: colors.background,
+    color,
+    border: `1px solid ${color}`
+  });
+
   const getActionButtonStyle = (actionType: string) => {
     switch (actionType) {
       case 'Action.Submit':
-        return {
-          backgroundColor: '#0078d4',
-          color: '#ffffff',
-          border: '1px solid #0078d4'
-        };
-      case 'Action.OpenUrl':
-        return {
-          backgroundColor: '#107c10',
-          color: '#ffffff',
-          border: '1px solid #107c10'
-        };
       case 'Action.Execute':
         return {
-          backgroundColor: '#8764b8',
-          color: '#ffffff',
-          border: '1px solid #8764b8'
+          backgroundColor: colors.accent,
+          color: colors.accentText,
+          border: `1px solid ${colors.accent}`
         };
+      case 'Action.OpenUrl':
+        return getOutlinedButtonStyle(colors.good);
       case 'Action.ShowCard':
-        return {
-          backgroundColor: '#ca5010',
-          color: '#ffffff',
-          border: '1px solid #ca5010'
-        };
+        return getOutlinedButtonStyle(colors.accent);
       case 'Action.Popover':
-        return {
-          backgroundColor: '#d83b01',
-          color: '#ffffff',
-          border: '1px solid #d83b01'
-        };
+        return getOutlinedButtonStyle(colors.warning);
       default:
         return {
-          backgroundColor: '#f3f2f1',
-          color: '#323130',
-          border: '1px solid #8a8886'
+          backgroundColor: colors.emphasisBackground,
+          color: colors.text,
+          border: `1px solid ${colors.inputBorder}`
         };
     }
   };
@@ -1658,7 +1300,7 @@ const ActionSet = React.memo(({ element, onActionExecute, renderElement }: {
               renderElement={renderElement}
             />
           ) : (
-            <div key={index} style={{ color: '#a4262c', fontSize: '12px' }}>
+            <div key={index} style={{ color: colors.attention, fontSize: '12px' }}>
               Popover requires renderElement function
             </div>
           );
@@ -1689,50 +1331,94 @@ const ActionSet = React.memo(({ element, onActionExecute, renderElement }: {
   );
 });
 
-const UnsupportedElement = React.memo(({ type }: { type: string }) => (
-  <div style={{ 
-    padding: '8px', 
-    backgroundColor: '#fff4ce', 
-    border: '1px solid #ffb900',
-    borderRadius: '4px',
-    marginBottom: '8px',
-    fontSize: '12px',
-    color: '#323130'
-  }}>
-    Unsupported element type: {type}
-  </div>
-));
+const UnsupportedElement = React.memo(({ type }: { type: string }) => {
+  const { colors } = useCardHostConfig();
+  return (
+    <div style={{
+      padding: '8px',
+      backgroundColor: colors.warningBackground,
+      border: `1px solid ${colors.warning}`,
+      borderRadius: '4px',
+      marginBottom: '8px',
+      fontSize: '12px',
+      color: colors.text
+    }}>
+      Unsupported element type: {type}
+    </div>
+  );
+});
 
 export const AdaptiveCardContentRenderer: React.FC<AdaptiveCardContentRendererProps> = React.memo(({ 
   cardJson, 
   data,
   onActionExecute,
-  useNativeRenderer = false
+  useNativeRenderer = false,
+  locale,
+  hostConfig,
+  onInputsDirtyChange
 }) => {
   const [parsedCard, setParsedCard] = React.useState<ParsedCard | null>(null);
   const [error, setError] = React.useState<string | null>(null);
+  const [inputValues, setInputValues] = React.useState<InputValues>({});
+  const [showValidation, setShowValidation] = React.useState<boolean>(false);
+  const [isDirty, setIsDirty] = React.useState<boolean>(false);
+  const [idPrefix] = React.useState<string>(() => getId('card'));
+
+  const cardHostConfig = React.useMemo(() => hostConfig || buildCardHostConfig(), [hostConfig]);
+  const inputs = React.useMemo(() => collectInputs(parsedCard), [parsedCard]);
+  // Validated only once the user has tried to submit, so regex checks do not run on every keystroke
+  const inputErrors = React.useMemo(
+    () => (showValidation ? validateInputs(inputs, inputValues) : {}),
+    [inputs, inputValues, showValidation]
+  );
+
+  const inputContext = React.useMemo<ICardInputContext>(() => ({
+    idPrefix,
+    values: inputValues,
+    setValue: (id: string, value: string) => {
+      setInputValues(current => ({ ...current, [id]: value }));
+      setIsDirty(true);
+    },
+    errors: inputErrors,
+    validate: () => {
+      setShowValidation(true);
+      return Object.keys(validateInputs(inputs, inputValues)).length === 0;
+    }
+  }), [idPrefix, inputs, inputValues, inputErrors]);
 
   React.useEffect(() => {
     try {
       if (cardJson) {
-        const card = JSON.parse(cardJson) as ParsedCard;
+        // Expand ${...} template expressions against the card's data, as the native renderer does
+        const card = (data !== undefined
+          ? new Template(JSON.parse(cardJson)).expand({ $root: data } as IEvaluationContext)
+          : JSON.parse(cardJson)) as ParsedCard;
         setParsedCard(card);
+        setInputValues(getInitialInputValues(collectInputs(card)));
+        setIsDirty(false);
+        setShowValidation(false);
         setError(null);
       }
     } catch (err) {
       setError('Failed to parse Adaptive Card JSON');
       console.error('Error parsing Adaptive Card:', err);
     }
-  }, [cardJson]);
+  }, [cardJson, data]);
+
+  React.useEffect(() => {
+    if (!useNativeRenderer) {
+      onInputsDirtyChange?.(isDirty);
+    }
+  }, [isDirty, useNativeRenderer, onInputsDirtyChange]);
 
   const renderElement = React.useCallback((element: AdaptiveCardElement): JSX.Element => {
     switch (element.type) {
       // Text Elements
       case 'TextBlock':
-        return <TextBlock element={element} />;
+        return <TextBlock element={element} locale={locale} />;
       
       case 'TextRun':
-        return <TextRun element={element} />;
+        return <TextRun element={element} locale={locale} />;
       
       // Input Elements
       case 'Input.Text':
@@ -1744,6 +1430,18 @@ export const AdaptiveCardContentRenderer: React.FC<AdaptiveCardContentRendererPr
       case 'Input.ChoiceSet':
         return <InputChoiceSet element={element} />;
       
+      case 'Input.Date':
+        return <InputDate element={element} />;
+      
+      case 'Input.Time':
+        return <InputTime element={element} />;
+      
+      case 'Input.Toggle':
+        return <InputToggle element={element} />;
+      
+      case 'Input.Rating':
+        return <InputRating element={element} />;
+      
       // Container Elements
       case 'Container':
         return <Container element={element} renderElement={renderElement} />;
@@ -1751,10 +1449,25 @@ export const AdaptiveCardContentRenderer: React.FC<AdaptiveCardContentRendererPr
       case 'ColumnSet':
         return <ColumnSet element={element} renderElement={renderElement} />;
       
+      case 'FactSet':
+        return <FactSet element={element} />;
+      
+      case 'RichTextBlock':
+        return <RichTextBlock element={element} renderElement={renderElement} />;
+      
       // Media Elements
       case 'Image':
         return <Image element={element} />;
       
+      case 'ImageSet':
+        return <ImageSet element={element} />;
+      
+      case 'Media':
+        return <Media element={element} />;
+      
+      case 'Icon':
+        return <CardIcon element={element} />;
+      
       // Progress Elements
       case 'ProgressBar':
         return <ProgressBar element={element} />;
@@ -1777,16 +1490,21 @@ export const AdaptiveCardContentRenderer: React.FC<AdaptiveCardContentRendererPr
       case 'Chart.VerticalBar':
       case 'Chart.HorizontalBar':
       case 'Chart.Gauge':
-        return <ChartRenderer element={element} />;
+      case 'Chart.Scatter':
+      case 'Chart.Bubble':
+      case 'Chart.Radar':
+      case 'Chart.PolarArea':
+      case 'Chart.Combo':
+        return <ChartRenderer element={element} data={data} />;
       
       // Action Elements
       case 'ActionSet':
-        return <ActionSet element={element} onActionExecute={onActionExecute as (action: AdaptiveCardAction) => void} renderElement={renderElement} />;
+        return <ActionSet element={element} onActionExecute={onActionExecute} renderElement={renderElement} />;
       
       default:
         return <UnsupportedElement type={element.type} />;
     }
-  }, [onActionExecute]);
+  }, [onActionExecute, data, locale]);
 
   // Use native renderer if specified
   if (useNativeRenderer) {
@@ -1794,7 +1512,9 @@ export const AdaptiveCardContentRenderer: React.FC<AdaptiveCardContentRendererPr
       <NativeAdaptiveCardRenderer 
         cardJson={cardJson} 
         data={data} 
-        onActionExecute={onActionExecute as (action: AdaptiveCards.Action) => void} 
+        onActionExecute={onActionExecute} 
+        hostConfig={cardHostConfig}
+        onInputsDirtyChange={onInputsDirtyChange}
       />
     );
   }
@@ -1804,9 +1524,9 @@ export const AdaptiveCardContentRenderer: React.FC<AdaptiveCardContentRendererPr
       <div style={{ 
         padding: '20px', 
         textAlign: 'center', 
-        color: '#a4262c',
-        backgroundColor: '#fdf3f4',
-        border: '1px solid #a4262c',
+        color: cardHostConfig.colors.attention,
+        backgroundColor: cardHostConfig.colors.attentionBackground,
+        border: `1px solid ${cardHostConfig.colors.attention}`,
         borderRadius: '4px'
       }}>
         {error}
@@ -1819,7 +1539,7 @@ export const AdaptiveCardContentRenderer: React.FC<AdaptiveCardContentRendererPr
       <div style={{ 
         padding: '20px', 
         textAlign: 'center', 
-        color: '#605e5c' 
+        color: cardHostConfig.colors.subtleText
       }}>
         Loading...
       </div>
@@ -1827,27 +1547,34 @@ export const AdaptiveCardContentRenderer: React.FC<AdaptiveCardContentRendererPr
   }
 
   return (
-    <div style={{ 
-      padding: '16px',
-      height: '100%',
-      overflow: 'auto'
-    }}>
-      {/* Render card body */}
-      {parsedCard.body?.map((element: AdaptiveCardElement, index: number) => (
-        <React.Fragment key={index}>
-          {renderElement(element)}
-        </React.Fragment>
-      ))}
+    <CardHostConfigContext.Provider value={cardHostConfig}>
+      <CardInputContext.Provider value={inputContext}>
+        <div style={{ 
+          padding: '16px',
+          height: '100%',
+          overflow: 'auto'
+        }}>
+          {/* Standalone Chart.* payloads are a single chart element rather than a card body */}
+          {!parsedCard.body && isAdaptiveCardChartType(parsedCard.type) && renderElement(parsedCard as AdaptiveCardElement)}
+
+          {/* Render card body */}
+          {parsedCard.body?.map((element: AdaptiveCardElement, index: number) => (
+            <React.Fragment key={index}>
+              {renderElement(element)}
+            </React.Fragment>
+          ))}
       
-      {/* Render card actions */}
-      {parsedCard.actions && parsedCard.actions.length > 0 && (
-        <ActionSet 
-          element={{ actions: parsedCard.actions } as AdaptiveCardElement} 
-          onActionExecute={onActionExecute as (action: AdaptiveCardAction) => void} 
-          renderElement={renderElement}
-        />
-      )}
-    </div>
+          {/* Render card actions */}
+          {parsedCard.actions && parsedCard.actions.length > 0 && (
+            <ActionSet 
+              element={{ actions: parsedCard.actions } as AdaptiveCardElement} 
+              onActionExecute={onActionExecute} 
+              renderElement={renderElement}
+            />
+          )}
+        </div>
+      </CardInputContext.Provider>
+    </CardHostConfigContext.Provider>
   );
 });
 
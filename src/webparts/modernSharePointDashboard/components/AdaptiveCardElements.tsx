@@ -0,0 +1,243 @@
+import * as React from 'react';
+import { useState } from 'react';
+import { Icon } from '@fluentui/react/lib/Icon';
+import { CardHostConfig, getSpacing } from '../utils/cardHostConfig';
+import { useCardHostConfig } from './CardHostConfigContext';
+import type { AdaptiveCardElement } from './AdaptiveCardContentRenderer';
+
+// Space above an element (and its separator line), from the host config
+const getSpacingStyle = (element: AdaptiveCardElement, cardHostConfig: CardHostConfig): React.CSSProperties => ({
+  marginTop: element.spacing ? getSpacing(element.spacing) : 0,
+  marginBottom: getSpacing('Default'),
+  borderTop: element.separator ? `${cardHostConfig.separator.lineThickness}px solid ${cardHostConfig.separator.lineColor}` : 'none',
+  paddingTop: element.separator ? getSpacing(element.spacing) : 0
+});
+
+const getAlignment = (element: AdaptiveCardElement): 'left' | 'center' | 'right' =>
+  element.horizontalAlignment === 'Center' ? 'center' :
+  element.horizontalAlignment === 'Right' ? 'right' : 'left';
+
+// Key/value pairs laid out as a two-column grid
+export const FactSet = React.memo(({ element }: { element: AdaptiveCardElement }) => {
+  const cardHostConfig = useCardHostConfig();
+  const { title, value, spacing } = cardHostConfig.factSet;
+
+  return (
+    <div style={{
+      ...getSpacingStyle(element, cardHostConfig),
+      display: 'grid',
+      gridTemplateColumns: 'auto 1fr',
+      columnGap: `${spacing}px`,
+      rowGap: `${cardHostConfig.spacing.small}px`,
+      fontSize: `${cardHostConfig.fontSizes.default}px`,
+      color: cardHostConfig.colors.text
+    }}>
+      {element.facts?.map((fact, index) => (
+        <React.Fragment key={index}>
+          <div style={{
+            maxWidth: `${title.maxWidth}px`,
+            fontWeight: title.weight === 'bolder' ? cardHostConfig.fontWeights.bolder : cardHostConfig.fontWeights.default,
+            wordWrap: title.wrap ? 'break-word' : 'normal'
+          }}>
+            {fact.title}
+          </div>
+          <div style={{
+            fontWeight: value.weight === 'bolder' ? cardHostConfig.fontWeights.bolder : cardHostConfig.fontWeights.default,
+            wordWrap: value.wrap ? 'break-word' : 'normal'
+          }}>
+            {fact.value}
+          </div>
+        </React.Fragment>
+      ))}
+    </div>
+  );
+});
+
+// Pixel width of an image size, or undefined for the auto and stretch modes
+const getImageWidth = (cardHostConfig: CardHostConfig, size?: string): number | undefined => {
+  switch ((size || '').toLowerCase()) {
+    case 'small':
+      return cardHostConfig.imageSizes.small;
+    case 'medium':
+      return cardHostConfig.imageSizes.medium;
+    case 'large':
+      return cardHostConfig.imageSizes.large;
+    default:
+      return undefined;
+  }
+};
+
+// Gallery of images; imageSize applies to every image unless one sets its own size
+export const ImageSet = React.memo(({ element }: { element: AdaptiveCardElement }) => {
+  const cardHostConfig = useCardHostConfig();
+  const setSize = element.imageSize || cardHostConfig.imageSet.imageSize;
+
+  return (
+    <div style={{
+      ...getSpacingStyle(element, cardHostConfig),
+      display: 'flex',
+      flexWrap: 'wrap',
+      gap: `${cardHostConfig.spacing.small}px`,
+      justifyContent: getAlignment(element) === 'center' ? 'center' : getAlignment(element) === 'right' ? 'flex-end' : 'flex-start'
+    }}>
+      {element.images?.map((image, index) => {
+        const size = typeof image.size === 'string' && image.size !== 'Auto' ? image.size : setSize;
+        const width = getImageWidth(cardHostConfig, size);
+        const isStretch = size.toLowerCase() === 'stretch';
+
+        return (
+          <img
+            key={index}
+            src={image.url || ''}
+            alt={image.altText || ''}
+            style={{
+              width: width ? `${width}px` : isStretch ? '100%' : 'auto',
+              flex: isStretch ? '1 1 0' : '0 0 auto',
+              maxHeight: width ? undefined : `${cardHostConfig.imageSet.maxImageHeight}px`,
+              objectFit: 'cover',
+              borderRadius: '4px'
+            }}
+          />
+        );
+      })}
+    </div>
+  );
+});
+
+// Video or audio with an optional poster; playback starts inline when the poster is clicked
+export const Media = React.memo(({ element }: { element: AdaptiveCardElement }) => {
+  const cardHostConfig = useCardHostConfig();
+  const poster = element.poster || cardHostConfig.media.defaultPoster;
+  const [isPlaying, setIsPlaying] = useState<boolean>(!poster);
+  const sources = element.sources || [];
+  const isAudio = sources.length > 0 && sources.every(source => (source.mimeType || '').indexOf('audio/') === 0);
+
+  if (sources.length === 0) {
+    return <div style={getSpacingStyle(element, cardHostConfig)} />;
+  }
+
+  if (!isPlaying) {
+    return (
+      <div style={getSpacingStyle(element, cardHostConfig)}>
+        <button
+          type="button"
+          onClick={() => setIsPlaying(true)}
+          aria-label={element.altText ? `Play ${element.altText}` : 'Play media'}
+          style={{
+            position: 'relative',
+            display: 'block',
+            width: '100%',
+            padding: 0,
+            border: 'none',
+            background: 'none',
+            cursor: 'pointer'
+          }}
+        >
+          <img src={poster} alt={element.altText || ''} style={{ display: 'block', width: '100%', borderRadius: '4px' }} />
+          <span style={{
+            position: 'absolute',
+            top: '50%',
+            left: '50%',
+            transform: 'translate(-50%, -50%)',
+            width: '48px',
+            height: '48px',
+            borderRadius: '50%',
+            backgroundColor: 'rgba(0, 0, 0, 0.6)',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center'
+          }}>
+            <Icon iconName="Play" style={{ color: '#ffffff', fontSize: '20px' }} />
+          </span>
+        </button>
+      </div>
+    );
+  }
+
+  const MediaTag = isAudio ? 'audio' : 'video';
+  return (
+    <div style={getSpacingStyle(element, cardHostConfig)}>
+      <MediaTag
+        controls
+        // Started from the poster, so play straight away
+        autoPlay={!!poster}
+        poster={isAudio ? undefined : poster || undefined}
+        aria-label={element.altText}
+        style={{ display: 'block', width: '100%', borderRadius: '4px' }}
+      >
+        {sources.map((source, index) => (
+          <source key={index} src={source.url} type={source.mimeType} />
+        ))}
+      </MediaTag>
+    </div>
+  );
+});
+
+// A paragraph of inlines; plain strings are treated as TextRuns without formatting
+export const RichTextBlock = React.memo(({ element, renderElement }: {
+  element: AdaptiveCardElement;
+  renderElement: (elem: AdaptiveCardElement) => JSX.Element;
+}) => {
+  const cardHostConfig = useCardHostConfig();
+
+  return (
+    <p style={{
+      ...getSpacingStyle(element, cardHostConfig),
+      textAlign: getAlignment(element),
+      fontSize: `${cardHostConfig.fontSizes.default}px`,
+      lineHeight: 1.4
+    }}>
+      {element.inlines?.map((inline, index) => (
+        <React.Fragment key={index}>
+          {renderElement(typeof inline === 'string' ? { type: 'TextRun', text: inline } : { ...inline, type: 'TextRun' })}
+        </React.Fragment>
+      ))}
+    </p>
+  );
+});
+
+const iconSizes: { [size: string]: number } = {
+  xxsmall: 12,
+  xsmall: 16,
+  small: 20,
+  standard: 24,
+  medium: 28,
+  large: 32,
+  xlarge: 40,
+  xxlarge: 48
+};
+
+const getForegroundColor = (cardHostConfig: CardHostConfig, color?: string): string => {
+  const { foregroundColors } = cardHostConfig.containerStyles.default;
+  switch ((color || '').toLowerCase()) {
+    case 'accent':
+      return foregroundColors.accent.default;
+    case 'attention':
+      return foregroundColors.attention.default;
+    case 'good':
+      return foregroundColors.good.default;
+    case 'warning':
+      return foregroundColors.warning.default;
+    default:
+      return foregroundColors.default.default;
+  }
+};
+
+// Icon element; the name is a Fluent UI icon name
+export const CardIcon = React.memo(({ element }: { element: AdaptiveCardElement }) => {
+  const cardHostConfig = useCardHostConfig();
+
+  return (
+    <div style={{ ...getSpacingStyle(element, cardHostConfig), textAlign: getAlignment(element) }}>
+      <Icon
+        iconName={element.name}
+        aria-hidden={!element.altText}
+        aria-label={element.altText}
+        style={{
+          fontSize: `${iconSizes[(element.size || 'standard').toLowerCase()] || iconSizes.standard}px`,
+          color: getForegroundColor(cardHostConfig, element.color)
+        }}
+      />
+    </div>
+  );
+});
@@ -0,0 +1,498 @@
+import * as React from 'react';
+import { useState } from 'react';
+import { DatePicker } from '@fluentui/react/lib/DatePicker';
+import { TimePicker } from '@fluentui/react/lib/TimePicker';
+import { Toggle } from '@fluentui/react/lib/Toggle';
+import { Rating, RatingSize } from '@fluentui/react/lib/Rating';
+import type { AdaptiveCardAction, AdaptiveCardElement } from './AdaptiveCardContentRenderer';
+import { useCardHostConfig } from './CardHostConfigContext';
+
+// Current input values of a custom-rendered card, keyed by input id
+export type InputValues = { [id: string]: string };
+// Validation messages of the inputs that are currently invalid, keyed by input id
+export type InputErrors = { [id: string]: string };
+// Input definitions of a card, keyed by id
+export type CardInputs = { [id: string]: AdaptiveCardElement };
+
+export interface ICardInputContext {
+  // Unique per rendered card, so element ids derived from input ids do not clash between cards on the page
+  idPrefix: string;
+  values: InputValues;
+  setValue: (id: string, value: string) => void;
+  // Only filled once the user has tried to submit, so untouched forms do not start out red
+  errors: InputErrors;
+  // Shows the validation messages and returns whether every input on the card is valid
+  validate: () => boolean;
+}
+
+export const CardInputContext = React.createContext<ICardInputContext>({
+  idPrefix: 'card',
+  values: {},
+  setValue: () => undefined,
+  errors: {},
+  validate: () => true
+});
+
+// Every input with an id in the card (including nested containers and popovers)
+export const collectInputs = (node: unknown, inputs: CardInputs = {}): CardInputs => {
+  if (Array.isArray(node)) {
+    node.forEach(child => collectInputs(child, inputs));
+  } else if (node !== null && typeof node === 'object') {
+    const element = node as AdaptiveCardElement;
+    if (typeof element.type === 'string' && element.type.indexOf('Input.') === 0 && typeof element.id === 'string') {
+      inputs[element.id] = element;
+    }
+    Object.keys(element).forEach(key => collectInputs(element[key], inputs));
+  }
+  return inputs;
+};
+
+const getInitialValue = (element: AdaptiveCardElement): string => {
+  if (element.value !== undefined && element.value !== null) {
+    return String(element.value);
+  }
+  // A toggle always has a value: it starts off
+  return element.type === 'Input.Toggle' ? element.valueOff ?? 'false' : '';
+};
+
+const pad = (value: number): string => (value < 10 ? `0${value}` : `${value}`);
+
+// Input.Date values are "YYYY-MM-DD" and Input.Time values "HH:mm", as in the Adaptive Cards schema
+const toDateValue = (date: Date): string => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+const toTimeValue = (date: Date): string => `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+const parseDateValue = (value: unknown): Date | undefined => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(String(value ?? ''));
+  return match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : undefined;
+};
+
+// Times are anchored to a fixed day so only the time of day matters
+const TIME_ANCHOR = new Date(2000, 0, 1);
+
+const parseTimeValue = (value: unknown): Date | undefined => {
+  const match = /^(\d{1,2}):(\d{2})/.exec(String(value ?? ''));
+  return match
+    ? new Date(TIME_ANCHOR.getFullYear(), TIME_ANCHOR.getMonth(), TIME_ANCHOR.getDate(), Number(match[1]), Number(match[2]))
+    : undefined;
+};
+
+export const getInitialInputValues = (inputs: CardInputs): InputValues =>
+  Object.keys(inputs).reduce<InputValues>((values, id) => ({ ...values, [id]: getInitialValue(inputs[id]) }), {});
+
+// Longest Input.Text value matched against the input's regex. A pattern that backtracks badly takes time
+// growing with the value's length, so the value is capped; inputs are also only validated once the user
+// submits, not on every keystroke before that. Longer values count as not in the expected format.
+const MAX_PATTERN_INPUT_LENGTH = 1000;
+
+// The input's regex, or undefined (no constraint) when it is not a valid pattern
+const getInputPattern = (element: AdaptiveCardElement): RegExp | undefined => {
+  const source = String(element.regex);
+  try {
+    return RegExp(source);
+  } catch (error) {
+    console.warn(`Ignoring invalid regex on input "${element.id}":`, error);
+    return undefined;
+  }
+};
+
+// Adaptive Card input validation: isRequired, regex for text and min/max for numbers.
+// errorMessage from the card replaces the default message.
+const validateInput = (element: AdaptiveCardElement, value: string): string | undefined => {
+  const fieldName = element.label || 'This field';
+  const fail = (defaultMessage: string): string => element.errorMessage || defaultMessage;
+
+  // A required toggle has to be switched on
+  if (element.type === 'Input.Toggle') {
+    return element.isRequired && value !== (element.valueOn ?? 'true') ? fail(`${fieldName} must be turned on.`) : undefined;
+  }
+
+  // No stars is no rating
+  if (!value.trim() || (element.type === 'Input.Rating' && !Number(value))) {
+    return element.isRequired ? fail(`${fieldName} is required.`) : undefined;
+  }
+
+  if (element.type === 'Input.Text' && element.regex) {
+    const pattern = getInputPattern(element);
+    if (pattern && (value.length > MAX_PATTERN_INPUT_LENGTH || !pattern.test(value))) {
+      return fail(`${fieldName} is not in the expected format.`);
+    }
+  }
+
+  if (element.type === 'Input.Number') {
+    const numericValue = Number(value);
+    if (isNaN(numericValue)) {
+      return fail(`${fieldName} must be a number.`);
+    }
+    if (element.min !== undefined && numericValue < Number(element.min)) {
+      return fail(`${fieldName} must be at least ${element.min}.`);
+    }
+    if (element.max !== undefined && numericValue > Number(element.max)) {
+      return fail(`${fieldName} must be at most ${element.max}.`);
+    }
+  }
+
+  // Zero-padded dates and times compare correctly as strings
+  if (element.type === 'Input.Date' || element.type === 'Input.Time') {
+    const noun = element.type === 'Input.Date' ? 'date' : 'time';
+    if (element.min !== undefined && value < String(element.min)) {
+      return fail(`${fieldName} must be a ${noun} on or after ${element.min}.`);
+    }
+    if (element.max !== undefined && value > String(element.max)) {
+      return fail(`${fieldName} must be a ${noun} on or before ${element.max}.`);
+    }
+  }
+
+  return undefined;
+};
+
+export const validateInputs = (inputs: CardInputs, values: InputValues): InputErrors =>
+  Object.keys(inputs).reduce<InputErrors>((errors, id) => {
+    const message = validateInput(inputs[id], values[id] ?? '');
+    return message ? { ...errors, [id]: message } : errors;
+  }, {});
+
+// Inputs with an id share the card's values so actions can collect them; inputs without one keep local state
+const useInputValue = (element: AdaptiveCardElement): [string, (value: string) => void, string | undefined] => {
+  const { values, setValue, errors } = React.useContext(CardInputContext);
+  const [localValue, setLocalValue] = useState<string>(getInitialValue(element));
+  const id = typeof element.id === 'string' ? element.id : undefined;
+
+  if (id === undefined) {
+    return [localValue, setLocalValue, undefined];
+  }
+  return [values[id] ?? '', (value: string) => setValue(id, value), errors[id]];
+};
+
+// Id of the element showing the input's validation message
+const useErrorId = (element: AdaptiveCardElement): string =>
+  `${React.useContext(CardInputContext).idPrefix}-${element.id}-error`;
+
+// Adds the input values to the action's data, as the Adaptive Cards SDK does for Submit and Execute
+export const withInputValues = (action: AdaptiveCardAction, values: InputValues): AdaptiveCardAction => {
+  if (action.associatedInputs === 'none' || (action.data !== undefined && (typeof action.data !== 'object' || action.data === null))) {
+    return action;
+  }
+  return { ...action, data: { ...(action.data as object), ...values } };
+};
+
+const InputError = ({ id, message }: { id: string; message?: string }): JSX.Element => {
+  const { colors } = useCardHostConfig();
+
+  return (
+    <>
+      {message && (
+        <div id={id} role="alert" style={{ marginTop: '4px', fontSize: '12px', color: colors.attention }}>
+          {message}
+        </div>
+      )}
+    </>
+  );
+};
+
+// Input Components
+export const InputText = React.memo(({ element }: { element: AdaptiveCardElement }) => {
+  const { colors } = useCardHostConfig();
+  const [value, setValue, error] = useInputValue(element);
+  const errorId = useErrorId(element);
+
+  return (
+    <div style={{ marginBottom: '12px' }}>
+      {element.label && (
+        <label style={{ 
+          display: 'block', 
+          marginBottom: '4px', 
+          fontSize: '14px',
+          fontWeight: '600',
+          color: colors.text
+        }}>
+          {element.label}
+          {element.isRequired && <span style={{ color: colors.attention }}>*</span>}
+        </label>
+      )}
+      <input
+        type="text"
+        placeholder={element.placeholder || ''}
+        value={value}
+        onChange={event => setValue(event.target.value)}
+        maxLength={element.maxLength}
+        required={element.isRequired}
+        aria-invalid={!!error}
+        aria-describedby={error ? errorId : undefined}
+        style={{
+          width: '100%',
+          padding: '8px 12px',
+          border: `1px solid ${error ? colors.attention : colors.inputBorder}`,
+          borderRadius: '2px',
+          fontSize: '14px',
+          fontFamily: '"Segoe UI", system-ui, sans-serif',
+          backgroundColor: colors.inputBackground,
+          color: colors.inputText,
+          outline: 'none'
+        }}
+      />
+      <InputError id={errorId} message={error} />
+    </div>
+  );
+});
+
+export const InputNumber = React.memo(({ element }: { element: AdaptiveCardElement }) => {
+  const { colors } = useCardHostConfig();
+  const [value, setValue, error] = useInputValue(element);
+  const errorId = useErrorId(element);
+
+  return (
+    <div style={{ marginBottom: '12px' }}>
+      {element.label && (
+        <label style={{ 
+          display: 'block', 
+          marginBottom: '4px', 
+          fontSize: '14px',
+          fontWeight: '600',
+          color: colors.text
+        }}>
+          {element.label}
+          {element.isRequired && <span style={{ color: colors.attention }}>*</span>}
+        </label>
+      )}
+      <input
+        type="number"
+        placeholder={element.placeholder || ''}
+        value={value}
+        onChange={event => setValue(event.target.value)}
+        min={element.min}
+        max={element.max}
+        required={element.isRequired}
+        aria-invalid={!!error}
+        aria-describedby={error ? errorId : undefined}
+        style={{
+          width: '100%',
+          padding: '8px 12px',
+          border: `1px solid ${error ? colors.attention : colors.inputBorder}`,
+          borderRadius: '2px',
+          fontSize: '14px',
+          fontFamily: '"Segoe UI", system-ui, sans-serif',
+          backgroundColor: colors.inputBackground,
+          color: colors.inputText,
+          outline: 'none'
+        }}
+      />
+      <InputError id={errorId} message={error} />
+    </div>
+  );
+});
+
+export const InputChoiceSet = React.memo(({ element }: { element: AdaptiveCardElement }) => {
+  const { colors } = useCardHostConfig();
+  const isExpanded = element.style === 'expanded';
+  const [value, setValue, error] = useInputValue(element);
+  const errorId = useErrorId(element);
+  // Multi-select values are comma-separated, as in the Adaptive Cards schema
+  const selectedValues = value ? value.split(',') : [];
+
+  const toggleChoice = (choiceValue: string, isChecked: boolean): void => {
+    if (!element.isMultiSelect) {
+      setValue(choiceValue);
+      return;
+    }
+    const others = selectedValues.filter(selected => selected !== choiceValue);
+    setValue((isChecked ? [...others, choiceValue] : others).join(','));
+  };
+  
+  if (isExpanded) {
+    return (
+      <div style={{ marginBottom: '12px' }}>
+        {element.label && (
+          <label style={{ 
+            display: 'block', 
+            marginBottom: '8px', 
+            fontSize: '14px',
+            fontWeight: '600',
+            color: colors.text
+          }}>
+            {element.label}
+            {element.isRequired && <span style={{ color: colors.attention }}>*</span>}
+          </label>
+        )}
+        {element.choices?.map((choice, index) => (
+          <div key={index} style={{ marginBottom: '8px' }}>
+            <label style={{ display: 'flex', alignItems: 'center', cursor: 'pointer' }}>
+              <input
+                type={element.isMultiSelect ? 'checkbox' : 'radio'}
+                name={`choice-${element.id || element.title || 'choice'}`}
+                value={choice.value}
+                checked={selectedValues.indexOf(choice.value) !== -1}
+                onChange={event => toggleChoice(choice.value, event.target.checked)}
+                style={{ marginRight: '8px' }}
+              />
+              <span style={{ fontSize: '14px', color: colors.text }}>{choice.title}</span>
+            </label>
+          </div>
+        ))}
+        <InputError id={errorId} message={error} />
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ marginBottom: '12px' }}>
+      {element.label && (
+        <label style={{ 
+          display: 'block', 
+          marginBottom: '4px', 
+          fontSize: '14px',
+          fontWeight: '600',
+          color: colors.text
+        }}>
+          {element.label}
+          {element.isRequired && <span style={{ color: colors.attention }}>*</span>}
+        </label>
+      )}
+      <select
+        required={element.isRequired}
+        multiple={element.isMultiSelect}
+        value={element.isMultiSelect ? selectedValues : value}
+        onChange={event => setValue(Array.from(event.target.selectedOptions, option => option.value).join(','))}
+        aria-invalid={!!error}
+        aria-describedby={error ? errorId : undefined}
+        style={{
+          width: '100%',
+          padding: '8px 12px',
+          border: `1px solid ${error ? colors.attention : colors.inputBorder}`,
+          borderRadius: '2px',
+          fontSize: '14px',
+          fontFamily: '"Segoe UI", system-ui, sans-serif',
+          backgroundColor: colors.inputBackground,
+          color: colors.inputText,
+          outline: 'none'
+        }}
+      >
+        {/* An empty choice, so a single select does not look answered before the user picks one */}
+        {!element.isMultiSelect && <option value="">{element.placeholder || ''}</option>}
+        {element.choices?.map((choice, index) => (
+          <option key={index} value={choice.value}>
+            {choice.title}
+          </option>
+        ))}
+      </select>
+      <InputError id={errorId} message={error} />
+    </div>
+  );
+});
+
+export const InputDate = React.memo(({ element }: { element: AdaptiveCardElement }) => {
+  const [value, setValue, error] = useInputValue(element);
+  const errorId = useErrorId(element);
+
+  return (
+    <div style={{ marginBottom: '12px' }}>
+      <DatePicker
+        label={element.label}
+        isRequired={element.isRequired}
+        placeholder={element.placeholder || ''}
+        value={parseDateValue(value)}
+        minDate={parseDateValue(element.min)}
+        maxDate={parseDateValue(element.max)}
+        onSelectDate={date => setValue(date ? toDateValue(date) : '')}
+        allowTextInput
+        parseDateFromString={text => parseDateValue(text) ?? new Date(text)}
+        formatDate={date => (date ? toDateValue(date) : '')}
+        textField={{ 'aria-invalid': !!error, 'aria-describedby': error ? errorId : undefined }}
+      />
+      <InputError id={errorId} message={error} />
+    </div>
+  );
+});
+
+export const InputTime = React.memo(({ element }: { element: AdaptiveCardElement }) => {
+  const [value, setValue, error] = useInputValue(element);
+  const errorId = useErrorId(element);
+  const minTime = parseTimeValue(element.min);
+  const maxTime = parseTimeValue(element.max);
+
+  return (
+    <div style={{ marginBottom: '12px' }}>
+      <TimePicker
+        label={element.label}
+        required={element.isRequired}
+        placeholder={element.placeholder || ''}
+        dateAnchor={TIME_ANCHOR}
+        value={parseTimeValue(value)}
+        increments={15}
+        // Offer whole hours around min and max; validation applies the exact limits
+        timeRange={minTime || maxTime ? {
+          start: minTime ? minTime.getHours() : 0,
+          end: maxTime ? Math.min(maxTime.getHours() + 1, 24) : 24
+        } : undefined}
+        allowFreeform
+        onChange={(event, time) => setValue(time && !isNaN(time.getTime()) ? toTimeValue(time) : '')}
+        aria-invalid={!!error}
+        aria-describedby={error ? errorId : undefined}
+      />
+      <InputError id={errorId} message={error} />
+    </div>
+  );
+});
+
+export const InputToggle = React.memo(({ element }: { element: AdaptiveCardElement }) => {
+  const { colors } = useCardHostConfig();
+  const [value, setValue, error] = useInputValue(element);
+  const errorId = useErrorId(element);
+  const valueOn = element.valueOn ?? 'true';
+  const valueOff = element.valueOff ?? 'false';
+
+  return (
+    <div style={{ marginBottom: '12px' }}>
+      <Toggle
+        // Input.Toggle uses title for the text next to the switch; label goes above it
+        label={element.label && (
+          <>
+            {element.label}
+            {element.isRequired && <span style={{ color: colors.attention }}>*</span>}
+          </>
+        )}
+        onText={element.title}
+        offText={element.title}
+        checked={value === valueOn}
+        onChange={(event, checked) => setValue(checked ? valueOn : valueOff)}
+        aria-invalid={!!error}
+        aria-describedby={error ? errorId : undefined}
+        styles={{ root: { marginBottom: 0 } }}
+      />
+      <InputError id={errorId} message={error} />
+    </div>
+  );
+});
+
+export const InputRating = React.memo(({ element }: { element: AdaptiveCardElement }) => {
+  const { colors } = useCardHostConfig();
+  const [value, setValue, error] = useInputValue(element);
+  const errorId = useErrorId(element);
+
+  return (
+    <div style={{ marginBottom: '12px' }}>
+      {element.label && (
+        <label style={{ 
+          display: 'block', 
+          marginBottom: '4px', 
+          fontSize: '14px',
+          fontWeight: '600',
+          color: colors.text
+        }}>
+          {element.label}
+          {element.isRequired && <span style={{ color: colors.attention }}>*</span>}
+        </label>
+      )}
+      <Rating
+        max={Number(element.max) || 5}
+        rating={Number(value) || 0}
+        allowZeroStars
+        size={element.size === 'Large' ? RatingSize.Large : RatingSize.Small}
+        onChange={(event, rating) => setValue(rating ? String(rating) : '')}
+        ariaLabel={element.label || 'Rating'}
+        aria-invalid={!!error}
+        aria-describedby={error ? errorId : undefined}
+      />
+      <InputError id={errorId} message={error} />
+    </div>
+  );
+});
@@ -1,15 +1,23 @@
 import * as React from 'react';
-import { useState, useEffect } from 'react';
-import * as AdaptiveCards from 'adaptivecards';
+import { useState, useEffect, useCallback } from 'react';
 import { TooltipHost, TooltipDelay } from '@fluentui/react/lib/Tooltip';
-import { AdaptiveCardContentRenderer } from './AdaptiveCardContentRenderer';
+import { MessageBar, MessageBarType } from '@fluentui/react/lib/MessageBar';
+import { IconButton } from '@fluentui/react/lib/Button';
+import { AdaptiveCardAction, AdaptiveCardContentRenderer } from './AdaptiveCardContentRenderer';
+import { isAdaptiveCardChartType } from './CustomChartRenderer';
 import styles from './ModernSharePointDashboard.module.scss';
+import type { ICardDataSource, IDashboardDataService } from '../services/IDashboardDataService';
+import type { CardHostConfig } from '../utils/cardHostConfig';
+import { getRefreshDelay } from '../utils/refreshSchedule';
 
 interface ICardData {
   id: number;
   title: string;
   cardViewJSON: string;
   CardTooltip?: string;
+  dataSource?: ICardDataSource;
+  // Seconds between automatic refreshes of the data source
+  refreshInterval?: number;
 }
 
 interface IChartData {
@@ -20,14 +28,107 @@ interface IChartData {
   yAxisTitle?: string;
 }
 
+// Inline result of the last Action.Submit / Action.Execute
+interface IActionStatus {
+  type: 'submitting' | 'success' | 'error';
+  message: string;
+}
+
 interface CardComponentProps {
   cardData: ICardData;
+  // Used to fetch the card's data source, when it has one
+  dataService?: IDashboardDataService;
+  // Culture name used to format dates and times in card text
+  locale?: string;
+  // Built from the web part's theme; shared by both renderers and the charts
+  hostConfig?: CardHostConfig;
 }
 
-export const CardComponent: React.FC<CardComponentProps> = ({ cardData }) => {
+export const CardComponent: React.FC<CardComponentProps> = ({ cardData, dataService, locale, hostConfig }) => {
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [contentType, setContentType] = useState<'chart' | 'adaptiveCard' | 'adaptiveCardContent' | 'error' | 'empty'>('empty');
   const [parsedChartData, setParsedChartData] = useState<IChartData | null>(null);
+  const [boundData, setBoundData] = useState<unknown>(undefined);
+  const [isDataLoading, setIsDataLoading] = useState<boolean>(!!cardData.dataSource);
+  const [dataError, setDataError] = useState<boolean>(false);
+  // Bumped to fetch the card's data source again: after a submit, a manual refresh or on the refresh interval
+  const [dataVersion, setDataVersion] = useState<number>(0);
+  // A refresh renders the card afresh, which would clear a form the user is filling in
+  const [hasDirtyInputs, setHasDirtyInputs] = useState<boolean>(false);
+  const [isRefreshing, setIsRefreshing] = useState<boolean>(false);
+  const [lastUpdated, setLastUpdated] = useState<Date | undefined>(undefined);
+  // Consecutive failed fetches; automatic refreshes back off while this is above zero
+  const [failureCount, setFailureCount] = useState<number>(0);
+  const [actionStatus, setActionStatus] = useState<IActionStatus | undefined>(undefined);
+
+  // Fetch the card's data source; the result is bound as $root when the template is expanded.
+  // Refreshes keep showing the previous data until the new data arrives.
+  useEffect(() => {
+    if (!cardData.dataSource || !dataService) {
+      setBoundData(undefined);
+      setIsDataLoading(false);
+      return;
+    }
+
+    let isCancelled = false;
+    setIsRefreshing(true);
+
+    dataService.getCardData(cardData.dataSource)
+      .then(result => {
+        if (!isCancelled) {
+          setBoundData(result);
+          setDataError(false);
+          setLastUpdated(new Date());
+          setFailureCount(0);
+          setIsDataLoading(false);
+          setIsRefreshing(false);
+        }
+      })
+      .catch(error => {
+        console.error(`Error loading data for card "${cardData.title}":`, error);
+        if (!isCancelled) {
+          setDataError(true);
+          setFailureCount(count => count + 1);
+          setIsDataLoading(false);
+          setIsRefreshing(false);
+        }
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [cardData.dataSource, cardData.title, dataService, dataVersion]);
+
+  // Schedule the next automatic refresh after each fetch. Nothing is fetched while the tab is hidden;
+  // a refresh that came due in the meantime runs as soon as the tab is visible again. While the user has
+  // changed an input there are no automatic refreshes; the schedule restarts once the card is submitted.
+  useEffect(() => {
+    if (!cardData.refreshInterval || !cardData.dataSource || !dataService || isRefreshing || hasDirtyInputs) {
+      return;
+    }
+
+    let isDue = false;
+    const refresh = (): void => setDataVersion(version => version + 1);
+    const timer = window.setTimeout(() => {
+      if (document.hidden) {
+        isDue = true;
+      } else {
+        refresh();
+      }
+    }, getRefreshDelay(cardData.refreshInterval, failureCount));
+
+    const handleVisibilityChange = (): void => {
+      if (isDue && !document.hidden) {
+        refresh();
+      }
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      window.clearTimeout(timer);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [cardData.refreshInterval, cardData.dataSource, dataService, isRefreshing, failureCount, hasDirtyInputs]);
   
   useEffect(() => {
     if (!cardData.cardViewJSON) {
@@ -40,8 +141,8 @@ export const CardComponent: React.FC<CardComponentProps> = ({ cardData }) => {
       // Parse the CardViewJSON from MasterCardList
       const json = JSON.parse(cardData.cardViewJSON);
       
-      // Check if it's a direct chart configuration (Chart.* format from MasterCardList)
-      if (json.type && typeof json.type === 'string' && json.type.startsWith('Chart.')) {
+      // Check if it's a direct chart configuration (Chart or Chart.* format from MasterCardList)
+      if (isAdaptiveCardChartType(json.type)) {
         setContentType('chart');
         setParsedChartData({
           type: json.type,
@@ -59,7 +160,7 @@ export const CardComponent: React.FC<CardComponentProps> = ({ cardData }) => {
             // Check for Chart element (either type: "Chart" or type starting with "Chart.")
             if (typeof item === 'object' && item !== null && 'type' in item) {
               const typedItem = item as { type: string; [key: string]: unknown };
-              if (typedItem.type === 'Chart' || (typedItem.type && typeof typedItem.type === 'string' && typedItem.type.startsWith('Chart.'))) {
+              if (isAdaptiveCardChartType(typedItem.type)) {
                 return typedItem;
               }
             }
@@ -128,11 +229,13 @@ export const CardComponent: React.FC<CardComponentProps> = ({ cardData }) => {
               typedItem.type === 'Media' ||
               typedItem.type === 'FactSet' ||
               typedItem.type === 'RichTextBlock' ||
+              typedItem.type === 'Icon' ||
               typedItem.type === 'Input.Text' ||
               typedItem.type === 'Input.Number' ||
               typedItem.type === 'Input.Date' ||
               typedItem.type === 'Input.Time' ||
               typedItem.type === 'Input.Toggle' ||
+              typedItem.type === 'Input.Rating' ||
               typedItem.type === 'Input.ChoiceSet' ||
               (typedItem.type === 'ActionSet' && Array.isArray(typedItem.actions) && typedItem.actions.length > 0);
           });
@@ -162,16 +265,98 @@ export const CardComponent: React.FC<CardComponentProps> = ({ cardData }) => {
     setIsLoading(false);
   }, [cardData.cardViewJSON, cardData.title]);
 
-  const handleActionExecute = (action: AdaptiveCards.Action): void => {
-    // Handle custom actions here (e.g., button clicks, submit actions)
+  // Submit and Execute actions naming a listName write their data (input values merged with action.data) to that list
+  const handleActionExecute = useCallback((action: AdaptiveCardAction): void => {
+    if (action.type !== 'Action.Submit' && action.type !== 'Action.Execute') {
+      return;
+    }
+    if (typeof action.listName !== 'string' || !action.listName || !dataService) {
+      console.warn(`Card "${cardData.title}": ${action.type} has no listName to write to.`);
+      return;
+    }
+
+    const fields = typeof action.data === 'object' && action.data !== null ? action.data as { [field: string]: unknown } : {};
+    setActionStatus({ type: 'submitting', message: 'Submitting...' });
+
+    dataService.saveCardItem({
+      listName: action.listName,
+      scope: action.scope === 'site' ? 'site' : 'web',
+      itemId: Number(action.itemId) || undefined
+    }, fields)
+      .then(() => {
+        setActionStatus({
+          type: 'success',
+          message: typeof action.successMessage === 'string' ? action.successMessage : 'Submitted successfully.'
+        });
+        setDataVersion(version => version + 1);
+      })
+      .catch(error => {
+        console.error(`Error submitting card "${cardData.title}":`, error);
+        setActionStatus({
+          type: 'error',
+          message: `Submission failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+        });
+      });
+  }, [cardData.title, dataService]);
+
+  const renderActionStatus = (): JSX.Element | null => {
+    if (!actionStatus) {
+      return null;
+    }
+    return (
+      <MessageBar
+        messageBarType={actionStatus.type === 'error' ? MessageBarType.error
+          : actionStatus.type === 'success' ? MessageBarType.success : MessageBarType.info}
+        onDismiss={actionStatus.type === 'submitting' ? undefined : () => setActionStatus(undefined)}
+        dismissButtonAriaLabel="Close"
+        styles={{ root: { flexShrink: 0 } }}
+      >
+        {actionStatus.message}
+      </MessageBar>
+    );
+  };
+
+  // Refresh button and last-updated time, for cards with a data source
+  const renderRefreshBar = (): JSX.Element | null => {
+    if (!cardData.dataSource || !dataService) {
+      return null;
+    }
+
+    const updatedTime = lastUpdated?.toLocaleTimeString(locale, { hour: 'numeric', minute: '2-digit' });
+    const statusText = dataError
+      ? `Refresh failed${updatedTime ? `, showing data from ${updatedTime}` : ''}`
+      : updatedTime ? `Updated ${updatedTime}` : '';
+
+    return (
+      <div style={{
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'flex-end',
+        gap: '4px',
+        flexShrink: 0,
+        padding: '0 4px 0 12px',
+        fontSize: '12px',
+        color: dataError ? hostConfig?.colors.attention || '#a4262c' : hostConfig?.colors.subtleText || '#605e5c'
+      }}>
+        <span role="status" title={lastUpdated?.toLocaleString(locale)}>{statusText}</span>
+        <IconButton
+          iconProps={{ iconName: 'Refresh' }}
+          title="Refresh"
+          ariaLabel={`Refresh ${cardData.title}`}
+          disabled={isRefreshing}
+          onClick={() => setDataVersion(version => version + 1)}
+          styles={{ root: { width: '24px', height: '24px' }, icon: { fontSize: '12px' } }}
+        />
+      </div>
+    );
   };
 
   // Render the card content based on the content type
   const renderCardContent = (): JSX.Element => {
     // Show loading state
-    if (isLoading) {
+    if (isLoading || isDataLoading) {
       return (
-        <div style={{ padding: '20px', textAlign: 'center', color: '#605e5c' }}>
+        <div style={{ padding: '20px', textAlign: 'center', color: hostConfig?.colors.subtleText || '#605e5c' }}>
           Loading...
         </div>
       );
@@ -180,16 +365,25 @@ export const CardComponent: React.FC<CardComponentProps> = ({ cardData }) => {
     // Show empty state
     if (contentType === 'empty') {
       return (
-        <div style={{ padding: '20px', textAlign: 'center', color: '#605e5c' }}>
+        <div style={{ padding: '20px', textAlign: 'center', color: hostConfig?.colors.subtleText || '#605e5c' }}>
           No data available
         </div>
       );
     }
 
+    // Show data source error state; after a failed refresh the previous data stays on screen
+    if (dataError && !lastUpdated) {
+      return (
+        <div style={{ padding: '20px', textAlign: 'center', color: hostConfig?.colors.attention || '#a4262c' }}>
+          Error loading card data
+        </div>
+      );
+    }
+
     // Show error state
     if (contentType === 'error') {
       return (
-        <div style={{ padding: '20px', textAlign: 'center', color: '#a4262c' }}>
+        <div style={{ padding: '20px', textAlign: 'center', color: hostConfig?.colors.attention || '#a4262c' }}>
           Error loading card content
         </div>
       );
@@ -201,7 +395,11 @@ export const CardComponent: React.FC<CardComponentProps> = ({ cardData }) => {
         <div style={{ height: '100%', minHeight: '300px', padding: '16px' }}>
           <AdaptiveCardContentRenderer
             cardJson={cardData.cardViewJSON}
+            data={boundData}
             onActionExecute={handleActionExecute}
+            locale={locale}
+            hostConfig={hostConfig}
+            onInputsDirtyChange={setHasDirtyInputs}
             useNativeRenderer={false}
           />
         </div>
@@ -214,7 +412,11 @@ export const CardComponent: React.FC<CardComponentProps> = ({ cardData }) => {
         <div style={{ height: '100%', width: '100%' }}>
           <AdaptiveCardContentRenderer
             cardJson={cardData.cardViewJSON}
+            data={boundData}
             onActionExecute={handleActionExecute}
+            locale={locale}
+            hostConfig={hostConfig}
+            onInputsDirtyChange={setHasDirtyInputs}
           />
         </div>
       );
@@ -226,7 +428,11 @@ export const CardComponent: React.FC<CardComponentProps> = ({ cardData }) => {
         <div style={{ height: '100%', width: '100%' }}>
           <AdaptiveCardContentRenderer
             cardJson={cardData.cardViewJSON}
+            data={boundData}
             onActionExecute={handleActionExecute}
+            locale={locale}
+            hostConfig={hostConfig}
+            onInputsDirtyChange={setHasDirtyInputs}
             useNativeRenderer={true}
           />
         </div>
@@ -235,7 +441,7 @@ export const CardComponent: React.FC<CardComponentProps> = ({ cardData }) => {
 
     // Fallback
     return (
-      <div style={{ padding: '20px', textAlign: 'center', color: '#a4262c' }}>
+      <div style={{ padding: '20px', textAlign: 'center', color: hostConfig?.colors.attention || '#a4262c' }}>
         Unsupported content type
       </div>
     );
@@ -264,7 +470,11 @@ export const CardComponent: React.FC<CardComponentProps> = ({ cardData }) => {
           e.currentTarget.style.boxShadow = '';
         }}
       >
-        {renderCardContent()}
+        {renderActionStatus()}
+        <div style={{ flex: 1, minHeight: 0 }}>
+          {renderCardContent()}
+        </div>
+        {renderRefreshBar()}
       </div>
     </TooltipHost>
   );
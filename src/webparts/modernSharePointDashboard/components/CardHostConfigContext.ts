@@ -0,0 +1,7 @@
+import * as React from 'react';
+import { buildCardHostConfig, CardHostConfig } from '../utils/cardHostConfig';
+
+// Host config of the card being rendered; the light default applies outside a themed card
+export const CardHostConfigContext = React.createContext<CardHostConfig>(buildCardHostConfig());
+
+export const useCardHostConfig = (): CardHostConfig => React.useContext(CardHostConfigContext);
@@ -0,0 +1,148 @@
+import * as React from 'react';
+
+// The Adaptive Cards markdown subset: **bold**, _italic_ (or *italic*), [links](url),
+// "- " / "* " bulleted and "1. " numbered lists, and blank lines between paragraphs.
+// Output is built from React elements, never HTML strings, so list data cannot inject markup.
+
+// Only web, mail and phone links (or relative ones) are rendered as links; anything else stays text
+const isSafeUrl = (url: string): boolean => /^(https?:|mailto:|tel:|\/|#)/i.test(url.trim());
+
+interface IInlineRule {
+  pattern: RegExp;
+  render: (match: RegExpExecArray, key: string) => React.ReactNode;
+}
+
+const inlineRules: IInlineRule[] = [
+  {
+    pattern: /\[([^\]]+)\]\(([^)\s]+)\)/,
+    render: (match, key) => isSafeUrl(match[2])
+      ? <a key={key} href={match[2]} target="_blank" rel="noopener noreferrer">{renderInline(match[1], key)}</a>
+      : <React.Fragment key={key}>{renderInline(match[1], key)}</React.Fragment>
+  },
+  {
+    pattern: /\*\*([^*\n]+)\*\*/,
+    render: (match, key) => <strong key={key}>{renderInline(match[1], key)}</strong>
+  },
+  {
+    // Underscores inside words (snake_case) are not emphasis; the leading character is kept as text
+    pattern: /(^|[^A-Za-z0-9])_([^_\n]+)_(?![A-Za-z0-9])/,
+    render: (match, key) => <React.Fragment key={key}>{match[1]}<em>{renderInline(match[2], key)}</em></React.Fragment>
+  },
+  {
+    pattern: /\*([^*\n]+)\*/,
+    render: (match, key) => <em key={key}>{renderInline(match[1], key)}</em>
+  }
+];
+
+// Renders the earliest inline match, then carries on after it
+function renderInline(text: string, keyPrefix: string): React.ReactNode[] {
+  const nodes: React.ReactNode[] = [];
+  let remaining = text;
+
+  while (remaining) {
+    let earliest: { match: RegExpExecArray; rule: IInlineRule } | undefined;
+    inlineRules.forEach(rule => {
+      const match = rule.pattern.exec(remaining);
+      if (match && (!earliest || match.index < earliest.match.index)) {
+        earliest = { match, rule };
+      }
+    });
+
+    if (!earliest) {
+      nodes.push(remaining);
+      break;
+    }
+
+    const { match, rule } = earliest;
+    if (match.index > 0) {
+      nodes.push(remaining.slice(0, match.index));
+    }
+    nodes.push(rule.render(match, `${keyPrefix}-${nodes.length}`));
+    remaining = remaining.slice(match.index + match[0].length);
+  }
+
+  return nodes;
+}
+
+type MarkdownBlock =
+  | { kind: 'paragraph'; lines: string[] }
+  | { kind: 'bullets'; items: string[] }
+  | { kind: 'numbers'; items: string[]; start: number };
+
+const BULLET_PATTERN = /^\s*[-*+]\s+(.*)$/;
+const NUMBER_PATTERN = /^\s*(\d+)\.\s+(.*)$/;
+
+const parseBlocks = (text: string): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  let current: MarkdownBlock | undefined;
+
+  text.split(/\r?\n/).forEach(line => {
+    const bullet = BULLET_PATTERN.exec(line);
+    const number = NUMBER_PATTERN.exec(line);
+
+    if (!line.trim()) {
+      current = undefined;
+    } else if (bullet) {
+      if (current?.kind !== 'bullets') {
+        current = { kind: 'bullets', items: [] };
+        blocks.push(current);
+      }
+      current.items.push(bullet[1]);
+    } else if (number) {
+      if (current?.kind !== 'numbers') {
+        current = { kind: 'numbers', items: [], start: Number(number[1]) };
+        blocks.push(current);
+      }
+      current.items.push(number[2]);
+    } else {
+      if (current?.kind !== 'paragraph') {
+        current = { kind: 'paragraph', lines: [] };
+        blocks.push(current);
+      }
+      current.lines.push(line.trim());
+    }
+  });
+
+  return blocks;
+};
+
+const listStyle: React.CSSProperties = { margin: '4px 0', paddingLeft: '20px' };
+
+export const CardMarkdown: React.FC<{ text: string }> = ({ text }) => {
+  const blocks = parseBlocks(text);
+
+  // A single paragraph renders inline so TextBlock keeps its own layout
+  if (blocks.length === 1 && blocks[0].kind === 'paragraph') {
+    return <>{renderInline(blocks[0].lines.join(' '), 'p0')}</>;
+  }
+
+  return (
+    <>
+      {blocks.map((block, index) => {
+        const key = `b${index}`;
+        switch (block.kind) {
+          case 'bullets':
+            return (
+              <ul key={key} style={listStyle}>
+                {block.items.map((item, itemIndex) => <li key={itemIndex}>{renderInline(item, `${key}-${itemIndex}`)}</li>)}
+              </ul>
+            );
+          case 'numbers':
+            return (
+              <ol key={key} start={block.start} style={listStyle}>
+                {block.items.map((item, itemIndex) => <li key={itemIndex}>{renderInline(item, `${key}-${itemIndex}`)}</li>)}
+              </ol>
+            );
+          default:
+            return (
+              <p key={key} style={{ margin: index === 0 ? '0 0 4px' : '4px 0' }}>
+                {renderInline(block.lines.join(' '), key)}
+              </p>
+            );
+        }
+      })}
+    </>
+  );
+};
+
+export default CardMarkdown;
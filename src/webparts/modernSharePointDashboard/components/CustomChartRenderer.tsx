@@ -0,0 +1,512 @@
+import * as React from 'react';
+import {
+  Chart as ChartJS,
+  ArcElement,
+  Tooltip,
+  Legend,
+  Title,
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  PointElement,
+  LineElement,
+  BarController,
+  LineController,
+  PieController,
+  DoughnutController,
+  ScatterController,
+  BubbleController,
+  RadarController,
+  PolarAreaController,
+  RadialLinearScale,
+  Filler,
+  type ChartTypeRegistry,
+  type TooltipItem
+} from "chart.js";
+import { Bar, Line, Pie, Doughnut, Scatter, Bubble, Radar, PolarArea, Chart } from 'react-chartjs-2';
+import { GaugeChart, IGaugeOptions } from './GaugeChart';
+import { useCardHostConfig } from './CardHostConfigContext';
+
+// Register required Chart.js components
+ChartJS.register(
+  ArcElement, 
+  Tooltip, 
+  Legend, 
+  Title, 
+  CategoryScale, 
+  LinearScale, 
+  BarElement, 
+  PointElement, 
+  LineElement,
+  BarController,
+  LineController,
+  PieController,
+  DoughnutController,
+  ScatterController,
+  BubbleController,
+  RadarController,
+  PolarAreaController,
+  RadialLinearScale,
+  Filler
+);
+
+// Set global Chart.js font defaults to Segoe UI
+ChartJS.defaults.font.family = '"Segoe UI", system-ui, sans-serif';
+
+// Chart types
+export type AdaptiveCardChartType = "Chart.Donut" | "Chart.Doughnut" | "Chart.Pie" | "Chart.VerticalBar" | "Chart.Bar" | "Chart.HorizontalBar" | "Chart.Line" | "Chart.Gauge"
+  | "Chart.Scatter" | "Chart.Bubble" | "Chart.Radar" | "Chart.PolarArea" | "Chart.Combo";
+type ChartType = 'line' | 'bar' | 'pie' | 'doughnut' | 'scatter' | 'bubble' | 'radar' | 'polarArea' | 'combo';
+
+export const adaptiveCardChartTypes: AdaptiveCardChartType[] = [
+  "Chart.Donut", "Chart.Doughnut", "Chart.Pie", "Chart.VerticalBar", "Chart.Bar", "Chart.HorizontalBar", "Chart.Line", "Chart.Gauge",
+  "Chart.Scatter", "Chart.Bubble", "Chart.Radar", "Chart.PolarArea", "Chart.Combo"
+];
+
+// "Chart" on its own is the generic element and renders as a bar chart
+export const isAdaptiveCardChartType = (type: unknown): boolean =>
+  type === 'Chart' || adaptiveCardChartTypes.indexOf(type as AdaptiveCardChartType) !== -1;
+
+interface IChartPoint {
+  x: number;
+  y: number;
+  r?: number;
+}
+
+interface ChartDataset {
+  label?: string;
+  // undefined leaves a gap where a series has no value for a label
+  data: (number | undefined | IChartPoint)[];
+  backgroundColor?: string | string[];
+  borderColor?: string | string[];
+  borderWidth?: number;
+  fill?: boolean | string;
+  tension?: number;
+  hoverOffset?: number;
+  [key: string]: unknown;
+}
+
+interface ChartData {
+  // Scatter and bubble charts position points by their x value instead
+  labels?: string[];
+  datasets: ChartDataset[];
+}
+
+export interface ChartDataItem {
+  legend?: string;     // for pie/doughnut/polar area/bar/line/radar
+  value?: number;      // for pie/doughnut/polar area/bar/line/radar
+  x?: string | number; // label for bar/line/radar/combo, numeric position for scatter/bubble
+  y?: number;          // for bar/line/combo/scatter/bubble
+  y2?: number;         // for combo: the line value, plotted on the secondary axis
+  r?: number;          // for bubble: radius in pixels
+}
+
+const getLabel = (item: ChartDataItem): string => String(item.x || item.legend || '');
+
+// One named series of a multi-series bar, line, radar, scatter or bubble chart
+export interface IChartSeries {
+  name: string;
+  color?: string;
+  data: ChartDataItem[];
+  // Line charts only: shade the area under this series (overrides the chart-level fill)
+  fill?: boolean;
+}
+
+const colorPalette = [
+  "#FF6384", "#36A2EB", "#FFCE56", "#4BC0C0",
+  "#9966FF", "#FF9F40", "#8BC34A", "#E91E63"
+];
+
+// Adds transparency to #RRGGBB colors; other color formats are used as given
+const withAlpha = (color: string, alpha: string): string =>
+  /^#[0-9a-f]{6}$/i.test(color) ? `${color}${alpha}` : color;
+
+// Custom Chart Renderer Component
+export const CustomChartRenderer: React.FC<{
+  title: string;
+  data: ChartDataItem[];
+  type: AdaptiveCardChartType;
+  xAxisTitle?: string;
+  yAxisTitle?: string;
+  // Combo charts only: title of the secondary axis, also used as the line's legend
+  y2AxisTitle?: string;
+  gauge?: IGaugeOptions;
+  // Bar, line, radar, scatter and bubble charts: plot several series together
+  series?: IChartSeries[];
+  // Stack series instead of grouping bars side by side or overlapping lines
+  stacked?: boolean;
+  // Line charts only: shade the area under every series
+  fill?: boolean;
+}> = ({ title, data, type, xAxisTitle, yAxisTitle, y2AxisTitle, gauge, series, stacked, fill }) => {
+  const { colors } = useCardHostConfig();
+
+  // Convert Adaptive Card chart type to internal type
+  const getInternalChartType = (chartType: AdaptiveCardChartType): ChartType => {
+    switch (chartType) {
+      case "Chart.Donut":
+      case "Chart.Doughnut":
+        return "doughnut";
+      case "Chart.Pie":
+        return "pie";
+      case "Chart.VerticalBar":
+      case "Chart.Bar":
+      case "Chart.HorizontalBar":
+        return "bar";
+      case "Chart.Line":
+        return "line";
+      case "Chart.Scatter":
+        return "scatter";
+      case "Chart.Bubble":
+        return "bubble";
+      case "Chart.Radar":
+        return "radar";
+      case "Chart.PolarArea":
+        return "polarArea";
+      case "Chart.Combo":
+        return "combo";
+      default:
+        return "bar";
+    }
+  };
+
+  const chartType = getInternalChartType(type);
+  const isMultiSeries = !!series && series.length > 0 && ['bar', 'line', 'radar', 'scatter', 'bubble'].indexOf(chartType) !== -1;
+  const isStacked = isMultiSeries && !!stacked && (chartType === 'bar' || chartType === 'line');
+  const hasXYScales = ['bar', 'line', 'scatter', 'bubble', 'combo'].indexOf(chartType) !== -1;
+
+  // One dataset per series, aligned on the union of their labels in first-seen order
+  const processSeriesData = (): ChartData => {
+    const labels: string[] = [];
+    series!.forEach(item => item.data.forEach(point => {
+      const label = getLabel(point);
+      if (labels.indexOf(label) === -1) {
+        labels.push(label);
+      }
+    }));
+
+    return {
+      labels,
+      datasets: series!.map((item, index) => {
+        const color = item.color || colorPalette[index % colorPalette.length];
+        const values = new Map(item.data.map(point => [getLabel(point), point.y ?? point.value ?? 0] as [string, number]));
+        const isFilled = chartType === 'radar' || (chartType === 'line' && (item.fill ?? !!fill));
+
+        return {
+          label: item.name,
+          data: labels.map(label => values.get(label)),
+          backgroundColor: withAlpha(color, chartType === 'bar' ? 'CC' : '55'),
+          borderColor: color,
+          borderWidth: 2,
+          // Stacked areas fill down to the series below instead of the axis
+          fill: isFilled ? (isStacked && index > 0 ? '-1' : 'origin') : false,
+          tension: chartType === 'line' ? 0.1 : undefined
+        };
+      })
+    };
+  };
+
+  // Scatter and bubble points are placed by their numeric x and y (and sized by r)
+  const processPointData = (): ChartData => {
+    const pointSeries: IChartSeries[] = isMultiSeries ? series! : [{ name: title, data }];
+    return {
+      datasets: pointSeries.map((item, index) => {
+        const color = item.color || colorPalette[index % colorPalette.length];
+        return {
+          label: item.name,
+          data: item.data.map(point => ({
+            x: Number(point.x) || 0,
+            y: point.y ?? point.value ?? 0,
+            r: chartType === 'bubble' ? point.r ?? 5 : undefined
+          })),
+          backgroundColor: withAlpha(color, chartType === 'bubble' ? '99' : 'CC'),
+          borderColor: color,
+          borderWidth: 1
+        };
+      })
+    };
+  };
+
+  // Bars use y on the primary axis; the line uses y2 on the secondary axis and is drawn on top
+  const processComboData = (): ChartData => ({
+    labels: data.map(getLabel),
+    datasets: [
+      {
+        type: 'bar',
+        label: yAxisTitle || title,
+        data: data.map(item => item.y ?? item.value ?? 0),
+        backgroundColor: `${colorPalette[1]}CC`,
+        borderColor: colorPalette[1],
+        borderWidth: 2,
+        yAxisID: 'y',
+        order: 2
+      },
+      {
+        type: 'line',
+        label: y2AxisTitle || '',
+        data: data.map(item => item.y2 ?? 0),
+        backgroundColor: colorPalette[0],
+        borderColor: colorPalette[0],
+        borderWidth: 2,
+        tension: 0.1,
+        yAxisID: 'y1',
+        order: 1
+      }
+    ]
+  });
+
+  // Process data based on chart type
+  const processData = (): ChartData => {
+    if (chartType === 'scatter' || chartType === 'bubble') {
+      return processPointData();
+    }
+    if (chartType === 'combo') {
+      return processComboData();
+    }
+    if (isMultiSeries) {
+      return processSeriesData();
+    }
+    if (chartType === 'bar' || chartType === 'line' || chartType === 'radar') {
+      const labels = data.map(getLabel);
+      const values = data.map(item => item.y || item.value || 0);
+      
+      return {
+        labels,
+        datasets: [{
+          label: title,
+          data: values,
+          backgroundColor: chartType === 'line' || chartType === 'radar' ? 'rgba(54, 162, 235, 0.5)' : colorPalette.map(color => `${color}CC`),
+          borderColor: chartType === 'line' || chartType === 'radar' ? colorPalette[0] : colorPalette.map(color => color),
+          borderWidth: 2,
+          fill: chartType === 'line' ? !!fill : true,
+          tension: chartType === 'line' ? 0.1 : undefined
+        }]
+      };
+    } else {
+      // For pie, doughnut and polar area charts
+      const labels = data.map(item => item.legend || '');
+      const values = data.map(item => item.value || 0);
+      
+      return {
+        labels,
+        datasets: [{
+          data: values,
+          backgroundColor: colorPalette.slice(0, values.length).map(color => `${color}DD`),
+          borderColor: colorPalette.slice(0, values.length),
+          borderWidth: 1,
+          hoverOffset: 4
+        }]
+      };
+    }
+  };
+
+  const baseOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    // Text and gridline colors follow the card's theme, so charts stay readable on dark and high contrast backgrounds
+    color: colors.text,
+    borderColor: colors.border,
+    plugins: {
+      title: {
+        display: !!title,
+        text: title,
+        font: { 
+          size: 16,
+          family: '"Segoe UI", system-ui, sans-serif'
+        }
+      },
+      legend: {
+        position: "right" as const,
+        labels: {
+          font: {
+            family: '"Segoe UI", system-ui, sans-serif'
+          }
+        }
+      },
+      tooltip: {
+        enabled: true,
+        titleFont: {
+          family: '"Segoe UI", system-ui, sans-serif'
+        },
+        bodyFont: {
+          family: '"Segoe UI", system-ui, sans-serif'
+        },
+        callbacks: {
+          // Stacked charts also show the total of all series at the hovered label
+          footer: (items: TooltipItem<keyof ChartTypeRegistry>[]) => isStacked && items.length > 1
+            ? `Total: ${items.reduce((total, item) => total + (Number(item.raw) || 0), 0).toLocaleString()}`
+            : ''
+        }
+      }
+    },
+    // Hovering a label lists the value of every series at that label
+    interaction: isMultiSeries ? { mode: 'index' as const, intersect: false } : undefined
+  } as const;
+
+  const processedData = processData();
+  
+  // Chart.js has no gauge type; draw it as an SVG semicircle instead
+  if (type === "Chart.Gauge") {
+    return <GaugeChart title={title} {...gauge} />;
+  }
+
+  const chartOptions = type === "Chart.HorizontalBar" ? {
+    ...baseOptions,
+    indexAxis: 'y' as const,
+    scales: {
+      x: {
+        stacked: isStacked,
+        title: { 
+          display: !!xAxisTitle, 
+          text: xAxisTitle || '',
+          color: colors.text,
+          font: { 
+            weight: 'bold' as const,
+            family: '"Segoe UI", system-ui, sans-serif'
+          }
+        },
+        grid: { color: colors.border },
+        ticks: {
+          color: colors.subtleText,
+          font: {
+            family: '"Segoe UI", system-ui, sans-serif'
+          }
+        }
+      },
+      y: {
+        stacked: isStacked,
+        title: { 
+          display: !!yAxisTitle, 
+          text: yAxisTitle || '',
+          color: colors.text,
+          font: { 
+            weight: 'bold' as const,
+            family: '"Segoe UI", system-ui, sans-serif'
+          }
+        },
+        grid: { color: colors.border },
+        ticks: {
+          color: colors.subtleText,
+          font: {
+            family: '"Segoe UI", system-ui, sans-serif'
+          }
+        }
+      }
+    }
+  } : hasXYScales ? {
+    ...baseOptions,
+    scales: {
+      x: {
+        stacked: isStacked,
+        title: { 
+          display: !!xAxisTitle, 
+          text: xAxisTitle || '',
+          color: colors.text,
+          font: { 
+            weight: 'bold' as const,
+            family: '"Segoe UI", system-ui, sans-serif'
+          }
+        },
+        grid: { color: colors.border },
+        ticks: {
+          color: colors.subtleText,
+          font: {
+            family: '"Segoe UI", system-ui, sans-serif'
+          }
+        }
+      },
+      y: {
+        stacked: isStacked,
+        title: { 
+          display: !!yAxisTitle, 
+          text: yAxisTitle || '',
+          color: colors.text,
+          font: { 
+            weight: 'bold' as const,
+            family: '"Segoe UI", system-ui, sans-serif'
+          }
+        },
+        grid: { color: colors.border },
+        ticks: {
+          color: colors.subtleText,
+          font: {
+            family: '"Segoe UI", system-ui, sans-serif'
+          }
+        },
+        beginAtZero: true
+      },
+      ...(chartType === 'combo' ? {
+        y1: {
+          position: 'right' as const,
+          // Keep the gridlines of the primary axis only
+          grid: { drawOnChartArea: false, color: colors.border },
+          title: {
+            display: !!y2AxisTitle,
+            text: y2AxisTitle || '',
+            color: colors.text,
+            font: {
+              weight: 'bold' as const,
+              family: '"Segoe UI", system-ui, sans-serif'
+            }
+          },
+          ticks: {
+            color: colors.subtleText,
+            font: {
+              family: '"Segoe UI", system-ui, sans-serif'
+            }
+          },
+          beginAtZero: true
+        }
+      } : {})
+    }
+  } : chartType === 'radar' || chartType === 'polarArea' ? {
+    ...baseOptions,
+    scales: {
+      r: {
+        grid: { color: colors.border },
+        angleLines: { color: colors.border },
+        pointLabels: { color: colors.text },
+        ticks: { color: colors.subtleText, backdropColor: colors.background }
+      }
+    }
+  } : baseOptions;
+
+  const renderChart = (): JSX.Element => {
+    switch (chartType) {
+      case "doughnut":
+        return <Doughnut data={processedData} options={chartOptions} />;
+      case "pie":
+        return <Pie data={processedData} options={chartOptions} />;
+      case "bar":
+        return <Bar data={processedData} options={chartOptions} />;
+      case "line":
+        return <Line data={processedData} options={chartOptions} />;
+      case "scatter":
+        return <Scatter data={processedData} options={chartOptions} />;
+      case "bubble":
+        return <Bubble data={processedData} options={chartOptions} />;
+      case "radar":
+        return <Radar data={processedData} options={chartOptions} />;
+      case "polarArea":
+        return <PolarArea data={processedData} options={chartOptions} />;
+      case "combo":
+        return <Chart type="bar" data={processedData} options={chartOptions} />;
+      default:
+        return <Bar data={processedData} options={chartOptions} />;
+    }
+  };
+
+  return (
+    <div style={{ 
+      width: '100%', 
+      height: '100%', 
+      position: 'relative',
+      display: 'flex',
+      justifyContent: 'center',
+      alignItems: 'center'
+    }}>
+      {renderChart()}
+    </div>
+  );
+};
+
+export default CustomChartRenderer;
@@ -0,0 +1,202 @@
+import * as React from 'react';
+import { useCardHostConfig } from './CardHostConfigContext';
+
+export interface IGaugeSegment {
+  // Defaults to the end of the previous segment (or min for the first one)
+  from?: number | string;
+  to: number | string;
+  color?: string;
+  legend?: string;
+}
+
+// Chart.Gauge properties; the numbers may arrive as strings after template expansion
+export interface IGaugeOptions {
+  min?: number | string;
+  max?: number | string;
+  value?: number | string;
+  segments?: IGaugeSegment[];
+  unit?: string;
+  target?: number | string;
+  subLabel?: string;
+  showMinMax?: boolean;
+  valueFormat?: 'Value' | 'Percentage';
+}
+
+const segmentPalette = ['#107c10', '#ffb900', '#d13438', '#0078d4', '#8764b8'];
+
+// Semicircle geometry inside a 200 x 120 viewBox
+const CENTER_X = 100;
+const CENTER_Y = 100;
+const RADIUS = 80;
+const STROKE_WIDTH = 18;
+// With threshold bands the needle sweeps the inside of the arc, so the labels go below its pivot
+const NEEDLE_LABELS_HEIGHT = 28;
+
+const pointAt = (fraction: number, radius: number = RADIUS): { x: number; y: number } => {
+  const angle = Math.PI * (1 - fraction);
+  return {
+    x: CENTER_X + radius * Math.cos(angle),
+    y: CENTER_Y - radius * Math.sin(angle)
+  };
+};
+
+const arcPath = (fromFraction: number, toFraction: number): string => {
+  const start = pointAt(fromFraction);
+  const end = pointAt(toFraction);
+  return `M ${start.x} ${start.y} A ${RADIUS} ${RADIUS} 0 0 1 ${end.x} ${end.y}`;
+};
+
+// Template values are often strings; anything empty or not numeric falls back
+const toNumber = (input: number | string | undefined, fallback: number): number => {
+  const numeric = input === undefined || input === '' ? NaN : Number(input);
+  return isNaN(numeric) ? fallback : numeric;
+};
+
+const formatNumber = (value: number): string =>
+  Number.isInteger(value) ? value.toLocaleString() : value.toLocaleString(undefined, { maximumFractionDigits: 1 });
+
+export const GaugeChart: React.FC<IGaugeOptions & { title?: string }> = ({
+  title,
+  min: rawMin,
+  max: rawMax,
+  value,
+  segments,
+  unit,
+  target: rawTarget,
+  subLabel,
+  showMinMax = true,
+  valueFormat = 'Value'
+}) => {
+  const { colors } = useCardHostConfig();
+  const min = toNumber(rawMin, 0);
+  const max = toNumber(rawMax, 100);
+  const numericValue = toNumber(value, 0);
+  const target = rawTarget === undefined || rawTarget === '' || isNaN(Number(rawTarget)) ? undefined : Number(rawTarget);
+  const range = max > min ? max - min : 1;
+  const toFraction = (input: number): number => Math.min(Math.max((input - min) / range, 0), 1);
+  const valueFraction = toFraction(numericValue);
+
+  const valueLabel = valueFormat === 'Percentage'
+    ? `${formatNumber(valueFraction * 100)}%`
+    : `${formatNumber(numericValue)}${unit ? ` ${unit}` : ''}`;
+
+  // Consecutive threshold bands; a gauge without segments fills up to its value instead
+  let previousTo = min;
+  const bands = (segments || []).map((segment, index) => {
+    const from = toNumber(segment.from, previousTo);
+    const to = toNumber(segment.to, max);
+    previousTo = to;
+    return {
+      from,
+      to,
+      color: segment.color || segmentPalette[index % segmentPalette.length],
+      legend: segment.legend
+    };
+  });
+  const activeBand = bands.find(band => numericValue >= band.from && numericValue <= band.to);
+
+  const needleEnd = pointAt(valueFraction, RADIUS - STROKE_WIDTH);
+  const targetInner = target !== undefined ? pointAt(toFraction(target), RADIUS - STROKE_WIDTH / 2 - 6) : undefined;
+  const targetOuter = target !== undefined ? pointAt(toFraction(target), RADIUS + STROKE_WIDTH / 2 + 6) : undefined;
+
+  return (
+    <div style={{
+      width: '100%',
+      height: '100%',
+      display: 'flex',
+      flexDirection: 'column',
+      alignItems: 'center',
+      justifyContent: 'center',
+      fontFamily: '"Segoe UI", system-ui, sans-serif'
+    }}>
+      {title && (
+        <div style={{ fontSize: '16px', fontWeight: 'bold', color: colors.text, marginBottom: '8px', textAlign: 'center' }}>
+          {title}
+        </div>
+      )}
+      <svg
+        viewBox={`0 0 200 ${bands.length > 0 ? 120 + NEEDLE_LABELS_HEIGHT : 120}`}
+        role="img"
+        aria-label={`${title ? `${title}: ` : ''}${valueLabel}${target !== undefined ? `, target ${formatNumber(target)}` : ''}`}
+        style={{ width: '100%', maxWidth: '320px', flex: '0 1 auto', overflow: 'visible' }}
+      >
+        {/* Track */}
+        <path d={arcPath(0, 1)} fill="none" stroke={colors.border} strokeWidth={STROKE_WIDTH} />
+
+        {bands.length > 0 ? (
+          bands.map((band, index) => (
+            <path
+              key={index}
+              d={arcPath(toFraction(band.from), toFraction(band.to))}
+              fill="none"
+              stroke={band.color}
+              strokeWidth={STROKE_WIDTH}
+            >
+              {band.legend && <title>{`${band.legend}: ${formatNumber(band.from)}–${formatNumber(band.to)}`}</title>}
+            </path>
+          ))
+        ) : (
+          valueFraction > 0 && (
+            <path d={arcPath(0, valueFraction)} fill="none" stroke={colors.accent} strokeWidth={STROKE_WIDTH} />
+          )
+        )}
+
+        {/* Needle marks the value when the arc shows threshold bands */}
+        {bands.length > 0 && (
+          <>
+            <line x1={CENTER_X} y1={CENTER_Y} x2={needleEnd.x} y2={needleEnd.y} stroke={colors.text} strokeWidth={3} strokeLinecap="round" />
+            <circle cx={CENTER_X} cy={CENTER_Y} r={5} fill={colors.text} />
+          </>
+        )}
+
+        {targetInner && targetOuter && (
+          <line
+            x1={targetInner.x}
+            y1={targetInner.y}
+            x2={targetOuter.x}
+            y2={targetOuter.y}
+            stroke={colors.text}
+            strokeWidth={3}
+          >
+            <title>{`Target: ${formatNumber(target!)}${unit ? ` ${unit}` : ''}`}</title>
+          </line>
+        )}
+
+        <text
+          x={CENTER_X}
+          y={bands.length > 0 ? CENTER_Y + 32 : CENTER_Y - 6}
+          textAnchor="middle"
+          fontSize="22"
+          fontWeight="600"
+          fill={activeBand ? activeBand.color : colors.text}
+        >
+          {valueLabel}
+        </text>
+        {subLabel && (
+          <text x={CENTER_X} y={bands.length > 0 ? CENTER_Y + 45 : CENTER_Y + 10} textAnchor="middle" fontSize="10" fill={colors.subtleText}>
+            {subLabel}
+          </text>
+        )}
+
+        {showMinMax && (
+          <>
+            <text x={CENTER_X - RADIUS} y={CENTER_Y + 16} textAnchor="middle" fontSize="10" fill={colors.subtleText}>{formatNumber(min)}</text>
+            <text x={CENTER_X + RADIUS} y={CENTER_Y + 16} textAnchor="middle" fontSize="10" fill={colors.subtleText}>{formatNumber(max)}</text>
+          </>
+        )}
+      </svg>
+      {bands.some(band => band.legend) && (
+        <div style={{ display: 'flex', flexWrap: 'wrap', justifyContent: 'center', gap: '12px', marginTop: '8px', fontSize: '12px', color: colors.subtleText }}>
+          {bands.filter(band => band.legend).map((band, index) => (
+            <span key={index} style={{ display: 'inline-flex', alignItems: 'center', gap: '4px' }}>
+              <span style={{ width: '10px', height: '10px', borderRadius: '2px', backgroundColor: band.color }} />
+              {band.legend}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GaugeChart;
@@ -1,7 +1,20 @@
 import { WebPartContext } from '@microsoft/sp-webpart-base';
+import { IReadonlyTheme } from '@microsoft/sp-component-base';
+
+// Whether a list lives in the current web or in the root web of the site collection
+export type ListScope = 'web' | 'site';
 
 export interface IModernSharePointDashboardProps {
   isDarkTheme: boolean;
+  theme?: IReadonlyTheme;
   hasTeamsContext: boolean;
   context: WebPartContext;
+  slotCount: number;
+  columns: number;
+  rows: number;
+  masterListName: string;
+  masterListScope: ListScope;
+  settingsListName: string;
+  settingsListScope: ListScope;
+  hideCustomizeButton: boolean;
 }
@@ -1,15 +1,25 @@
 import * as React from 'react';
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import styles from './ModernSharePointDashboard.module.scss';
 import type { IModernSharePointDashboardProps } from './IModernSharePointDashboardProps';
 import { PrimaryButton, DefaultButton } from '@fluentui/react/lib/Button';
 import { Panel } from '@fluentui/react/lib/Panel';
+import { Dialog, DialogFooter, DialogType } from '@fluentui/react/lib/Dialog';
+import { MessageBar, MessageBarType } from '@fluentui/react/lib/MessageBar';
 import { Checkbox } from '@fluentui/react/lib/Checkbox';
 import { Icon } from '@fluentui/react/lib/Icon';
+import { ThemeProvider, type PartialTheme } from '@fluentui/react/lib/Theme';
 import { useBoolean } from '@fluentui/react-hooks';
 import { DndContext, DragEndEvent, useDraggable, useDroppable, DragOverlay, DragStartEvent } from '@dnd-kit/core';
-import { SPHttpClient, SPHttpClientResponse } from '@microsoft/sp-http';
 import { CardComponent } from './CardComponent';
+import type { ICardDataSource, IMasterCard, ISelectedCard, IUserSettings } from '../services/IDashboardDataService';
+import { createDashboardDataService } from '../services/DashboardDataServiceFactory';
+import { UserSettingsConflictError } from '../services/UserSettingsConflictError';
+import { USER_SETTINGS_SCHEMA_VERSION } from '../services/userSettingsSchema';
+import { clampSpan, IGridPlacement, MAX_ROW_SPAN, packGridTiles } from '../utils/gridLayout';
+import { buildCardHostConfig, getThemeVariables } from '../utils/cardHostConfig';
+import { mergeUserSettings } from '../utils/userSettingsMerge';
+import { filterCardsForAudience } from '../utils/audience';
 
 interface ICard {
   id: number;
@@ -21,23 +31,158 @@ interface ICard {
   defaultOrder: number;
   cardViewJSON: string;
   CardTooltip?: string;
+  columnSpan: number;
+  rowSpan: number;
+  dataSource?: ICardDataSource;
+  refreshInterval?: number;
+  created?: string;
+  // Published since the user last saved their layout
+  isNew?: boolean;
 }
 
-interface ISelectedCard {
-  id: number;
-  title: string;
-  order: number;
+// A save rejected because the layout was saved elsewhere meanwhile (another tab, or Teams)
+interface ISaveConflict {
+  // The layout this session's edits started from
+  base: IUserSettings;
+  mine: IUserSettings;
+  stored: IUserSettings | undefined;
 }
 
-interface ISharePointCardItem {
-  Id: number;
-  Title: string;
-  Fixed: boolean; // SharePoint Yes/No (checkbox) column returns boolean
-  DefaultOrder: number;
-  CardViewJSON: string;
-  CardTooltip?: string;
+// Inline result of the last layout save
+interface ISaveStatus {
+  type: 'success' | 'error';
+  message: string;
 }
 
+// Height of one dashboard grid row; the grid grows by whole rows beyond `rows`
+const GRID_ROW_HEIGHT = 250;
+// Must match the gap of .dashboardGrid in ModernSharePointDashboard.module.scss
+const GRID_GAP = 10;
+
+// Dashboard grid tile. In edit layout mode it can be dragged onto another tile's slot
+// and resized in whole grid cells by dragging its corner handle; fixed cards never move.
+const DashboardTile: React.FC<{
+  card: ICard;
+  placement: IGridPlacement;
+  maxColumnSpan: number;
+  isEditing: boolean;
+  onResize: (columnSpan: number, rowSpan: number) => void;
+}> = ({ card, placement, maxColumnSpan, isEditing, onResize, children }) => {
+  const tileRef = useRef<HTMLDivElement | null>(null);
+  const canDrag = isEditing && !card.fixed;
+
+  const {
+    attributes,
+    listeners,
+    setNodeRef: setDraggableRef,
+    transform,
+    isDragging,
+  } = useDraggable({
+    id: `tile-${card.id}`,
+    data: { card, source: 'grid' },
+    disabled: !canDrag,
+  });
+
+  const {
+    setNodeRef: setDroppableRef,
+    isOver,
+  } = useDroppable({
+    id: `tile-drop-${card.id}`,
+    data: { card, source: 'grid' },
+    disabled: !canDrag,
+  });
+  const resizeStart = useRef<{
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    columnSpan: number;
+  } | null>(null);
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>): void => {
+    if (!tileRef.current) {
+      return;
+    }
+    event.preventDefault();
+    event.stopPropagation();
+    const rect = tileRef.current.getBoundingClientRect();
+    resizeStart.current = {
+      x: event.clientX,
+      y: event.clientY,
+      width: rect.width,
+      height: rect.height,
+      columnSpan: placement.columnSpan
+    };
+    event.currentTarget.setPointerCapture(event.pointerId);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>): void => {
+    const start = resizeStart.current;
+    if (!start) {
+      return;
+    }
+    const cellWidth = (start.width + GRID_GAP) / start.columnSpan;
+    const cellHeight = GRID_ROW_HEIGHT + GRID_GAP;
+    const columnSpan = clampSpan((start.width + GRID_GAP + event.clientX - start.x) / cellWidth, maxColumnSpan);
+    const rowSpan = clampSpan((start.height + GRID_GAP + event.clientY - start.y) / cellHeight, MAX_ROW_SPAN);
+
+    if (columnSpan !== placement.columnSpan || rowSpan !== placement.rowSpan) {
+      onResize(columnSpan, rowSpan);
+    }
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>): void => {
+    if (!resizeStart.current) {
+      return;
+    }
+    resizeStart.current = null;
+    event.currentTarget.releasePointerCapture(event.pointerId);
+  };
+
+  return (
+    <div
+      ref={(node) => {
+        tileRef.current = node;
+        setDraggableRef(node);
+        setDroppableRef(node);
+      }}
+      className={`${styles.gridTile}${isEditing ? ` ${styles.editing}` : ''}${isOver ? ` ${styles.dropTarget}` : ''}`}
+      style={{
+        gridColumn: `${placement.column} / span ${placement.columnSpan}`,
+        gridRow: `${placement.row} / span ${placement.rowSpan}`,
+        transform: transform ? `translate3d(${transform.x}px, ${transform.y}px, 0)` : undefined,
+        opacity: isDragging ? 0.6 : 1,
+        zIndex: isDragging ? 2 : undefined
+      }}
+    >
+      {children}
+      {isEditing && (
+        <div
+          className={styles.tileToolbar}
+          title={card.fixed ? 'This card is fixed and cannot be moved' : 'Drag to move this card'}
+          style={{ cursor: canDrag ? (isDragging ? 'grabbing' : 'grab') : 'default' }}
+          {...(canDrag ? listeners : {})}
+          {...(canDrag ? attributes : {})}
+        >
+          <Icon iconName={card.fixed ? 'Lock' : 'GripperDotsVertical'} />
+          <span className={styles.tileTitle}>{card.title}</span>
+        </div>
+      )}
+      {isEditing && (
+        <div
+          className={styles.resizeHandle}
+          title="Drag to resize"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+        >
+          <Icon iconName="SIPMove" style={{ pointerEvents: 'none' }} />
+        </div>
+      )}
+    </div>
+  );
+};
+
 // Draggable Card Component for Customize Panel using @dnd-kit/core
 const DraggableCard: React.FC<{
   card: ICard;
@@ -100,9 +245,9 @@ const DraggableCard: React.FC<{
         transition: isDragging || isDragOverlay ? 'none' : 'all 0.2s ease',
         transform: isDragging ? 'rotate(2deg) scale(1.05)' : isOver ? 'translateY(-2px)' : style?.transform || 'none',
         boxShadow: isDragging || isDragOverlay ? '0 8px 16px rgba(0,0,0,0.3)' : 
-                   isOver ? '0 4px 12px rgba(0,120,212,0.4), inset 0 2px 0 #0078d4' : 
+                   isOver ? '0 4px 12px rgba(0,120,212,0.4), inset 0 2px 0 var(--cardAccent)' : 
                    '0 1px 3px rgba(0,0,0,0.1)',
-        borderColor: isOver ? '#0078d4' : undefined,
+        borderColor: isOver ? 'var(--cardAccent)' : undefined,
         backgroundColor: isOver ? 'rgba(0,120,212,0.05)' : undefined,
       }}
       className={`${styles.draggableCard}${card.selected ? ' selected' : ''}${card.fixed ? ' fixed' : ''}${isDragging ? ' isDragging' : ''}${isOver ? ' isOver' : ''}`}
@@ -136,7 +281,7 @@ const DraggableCard: React.FC<{
               root: {
                 cursor: isDragging ? 'grabbing' : 'grab',
                 fontSize: '16px',
-                color: isDragging ? '#0078d4' : '#605e5c',
+                color: isDragging ? 'var(--cardAccent)' : 'var(--cardSubtleText)',
                 transition: 'color 0.2s ease'
               }
             }}
@@ -157,16 +302,29 @@ const DraggableCard: React.FC<{
         }
       />
       <span className="cardTitle">{card.title}</span>
+      {card.isNew && <span className="newBadge">New</span>}
     </div>
   );
 };
 
 const ModernSharePointDashboard: React.FC<IModernSharePointDashboardProps> = (props) => {
+  const { slotCount, columns, rows, masterListName, masterListScope, settingsListName, settingsListScope } = props;
   const [cards, setCards] = useState<ICard[]>([]);
   const [originalCards, setOriginalCards] = useState<ICard[]>([]);
   const [isCustomizePanelOpen, { setTrue: openCustomizePanel, setFalse: dismissCustomizePanel }] = useBoolean(false);
   const [searchText, setSearchText] = useState('');
   const [activeCard, setActiveCard] = useState<ICard | null>(null);
+  const [isEditingLayout, setIsEditingLayout] = useState(false);
+  const [saveConflict, setSaveConflict] = useState<ISaveConflict | undefined>(undefined);
+  const [saveStatus, setSaveStatus] = useState<ISaveStatus | undefined>(undefined);
+  // Cards as the master list defines them, before the user's settings; merged layouts are applied to these
+  const masterCardsRef = useRef<ICard[]>([]);
+  // Fresh data that arrived while the user was editing, applied once they are done so it cannot
+  // overwrite their changes; a save made meanwhile replaces its settings
+  const pendingReconcileRef = useRef<{ cards: ICard[]; userSettings: IUserSettings | undefined } | undefined>(undefined);
+  const isEditing = isCustomizePanelOpen || isEditingLayout || !!saveConflict;
+  const isEditingRef = useRef(isEditing);
+  isEditingRef.current = isEditing;
 
   // Handle drag start for @dnd-kit
   const handleDragStart = (event: DragStartEvent) => {
@@ -177,6 +335,30 @@ const ModernSharePointDashboard: React.FC<IModernSharePointDashboardProps> = (pr
   };
 
   // Handle drag end for @dnd-kit
+  // Moves a non-fixed tile into another tile's slot. The non-fixed cards keep their set of
+  // order values, so fixed cards stay in their defaultOrder slots around them.
+  const moveGridTile = (activeCardId: number, overCardId: number): void => {
+    setCards((prevCards) => {
+      const movableCards = prevCards
+        .filter(card => card.visible && !card.fixed)
+        .sort((a, b) => a.order - b.order);
+      const orders = movableCards.map(card => card.order);
+      const activeIndex = movableCards.findIndex(card => card.id === activeCardId);
+      const overIndex = movableCards.findIndex(card => card.id === overCardId);
+
+      if (activeIndex === -1 || overIndex === -1) {
+        return prevCards;
+      }
+
+      const [movedCard] = movableCards.splice(activeIndex, 1);
+      movableCards.splice(overIndex, 0, movedCard);
+      const newOrders = new Map<number, number>(movableCards.map((card, index) => [card.id, orders[index]]));
+
+      console.log(`🔄 Moved tile "${movedCard.title}" from slot ${activeIndex} to ${overIndex}`);
+      return prevCards.map(card => newOrders.has(card.id) ? { ...card, order: newOrders.get(card.id)! } : card);
+    });
+  };
+
   const handleDragEnd = (event: DragEndEvent) => {
     const { active, over } = event;
     setActiveCard(null);
@@ -195,6 +377,13 @@ const ModernSharePointDashboard: React.FC<IModernSharePointDashboardProps> = (pr
     const activeCard = activeData.card as ICard;
     const overCard = overData.card as ICard;
 
+    if (activeData.source === 'grid' || overData.source === 'grid') {
+      if (activeData.source === overData.source && !activeCard.fixed && !overCard.fixed) {
+        moveGridTile(activeCard.id, overCard.id);
+      }
+      return;
+    }
+
     // Only allow reordering among selected cards
     if (!activeCard.selected || !overCard.selected) {
       return;
@@ -223,64 +412,120 @@ const ModernSharePointDashboard: React.FC<IModernSharePointDashboardProps> = (pr
     });
   };
 
-  const loadUserSettings = useCallback(async (initialCards: ICard[]): Promise<void> => {
+  const dataService = useMemo(() => createDashboardDataService(props.context, {
+    webUrl: props.context.pageContext.web.absoluteUrl,
+    siteUrl: props.context.pageContext.site.absoluteUrl,
+    masterListName,
+    masterListScope,
+    settingsListName,
+    settingsListScope,
+    // The login name is the fallback where no Azure AD identity is available
+    userId: props.context.pageContext.aadInfo?.userId?.toString() || props.context.pageContext.user.loginName,
+    userLoginName: props.context.pageContext.user.loginName,
+    userDisplayName: props.context.pageContext.user.displayName
+  }), [props.context, masterListName, masterListScope, settingsListName, settingsListScope]);
+
+  // One host config for every card, rebuilt only when the theme changes
+  const cardHostConfig = useMemo(() => buildCardHostConfig(props.theme), [props.theme]);
+  const { colors } = cardHostConfig;
+  // The customize panel renders in a layer outside the section, so it gets the variables too
+  const themeVariables = useMemo(() => getThemeVariables(colors) as React.CSSProperties, [colors]);
+
+  // Shows the given cards with the user's saved selection and sizes, or the default selection without one
+  const applyUserSettings = useCallback((initialCards: ICard[], userSettings: IUserSettings | undefined): void => {
+    masterCardsRef.current = initialCards;
     try {
-      const currentUser = props.context.pageContext.user;
-      const userPrincipalName = currentUser.loginName;
-
-      console.log('Loading user settings for:', userPrincipalName);
+      console.log('Applying user settings for:', props.context.pageContext.user.loginName);
       console.log('Initial cards from SharePoint:', initialCards.map(c => ({ id: c.id, title: c.title, fixed: c.fixed })));
 
-      const response = await props.context.spHttpClient.get(
-        `${props.context.pageContext.site.absoluteUrl}/_api/web/lists/getbytitle('UserSettingsList')/items?$filter=UserID eq '${userPrincipalName}'&$top=1`,
-        SPHttpClient.configurations.v1
-      );
-
-      if (response.ok) {
-        const data = await response.json();
-        if (data.value && data.value.length > 0) {
-          const userSettings = JSON.parse(data.value[0].PersonalisedCards);
-          console.log('Found user settings:', userSettings);
-          
-          const userCardMap = new Map<number, ISelectedCard>(
-            userSettings.selectedCards.map((uc: ISelectedCard) => [uc.id, uc])
-          );
-
-          const updatedCards = initialCards.map(card => {
-            if (card.fixed) {
-              return { ...card, visible: true, selected: true };
-            }
-            const userSetting = userCardMap.get(card.id);
-            return {
-              ...card,
-              visible: !!userSetting,
-              selected: !!userSetting,
-              order: userSetting ? userSetting.order : card.order,
-            };
-          });
-
-          console.log('Final cards after applying user settings:', updatedCards.map(c => ({ 
-            id: c.id, 
-            title: c.title, 
-            fixed: c.fixed, 
-            selected: c.selected, 
-            visible: c.visible 
-          })));
-
-          setCards(updatedCards);
-          setOriginalCards([...updatedCards]);
-          return;
+      if (userSettings) {
+        console.log('Found user settings:', userSettings);
+        
+        const userCardMap = new Map<number, ISelectedCard>(
+          userSettings.selectedCards.map((uc: ISelectedCard) => [uc.id, uc])
+        );
+        // Cards published since the layout was saved; cards without a created date never count as new
+        const savedAt = new Date(userSettings.timestamp).getTime();
+        const isNewCard = (card: ICard): boolean =>
+          !userCardMap.has(card.id) && !!card.created && new Date(card.created).getTime() > savedAt;
+
+        // Saved layouts may predate a smaller slot count; keep only the cards that still fit. A fixed card
+        // published since takes its slot without costing the user a card: theirs move along one slot each,
+        // until they choose in the customize panel which one to give up.
+        const fixedCount = initialCards.filter(c => c.fixed).length;
+        const newFixedCount = initialCards.filter(c => c.fixed && isNewCard(c)).length;
+        const requiredSelections = Math.max(slotCount - fixedCount, 0);
+        const keptCards = initialCards
+          .filter(card => !card.fixed && userCardMap.has(card.id))
+          .sort((a, b) => userCardMap.get(a.id)!.order - userCardMap.get(b.id)!.order)
+          .slice(0, Math.max(slotCount - fixedCount + newFixedCount, 0));
+        const keptIds = new Set<number>(keptCards.map(card => card.id));
+
+        // Saved cards deleted from the master list leave slots empty; fill them with the default cards,
+        // after the user's own
+        const lastOrder = keptCards.reduce((maxOrder, card) => Math.max(maxOrder, userCardMap.get(card.id)!.order), 0);
+        const backfillOrders = new Map<number, number>(
+          initialCards
+            .filter(card => !card.fixed && !keptIds.has(card.id))
+            .slice(0, Math.max(requiredSelections - keptCards.length, 0))
+            .map((card, index) => [card.id, lastOrder + index + 1])
+        );
+        if (backfillOrders.size > 0) {
+          console.log(`Filling ${backfillOrders.size} empty slot(s) left by deleted cards with default cards.`);
         }
+
+        const updatedCards = initialCards.map(card => {
+          const savedSpans = userCardMap.get(card.id);
+          const sizedCard = {
+            ...card,
+            columnSpan: savedSpans?.columnSpan || card.columnSpan,
+            rowSpan: clampSpan(savedSpans?.rowSpan || card.rowSpan, MAX_ROW_SPAN),
+          };
+          const isNew = isNewCard(card);
+          if (card.fixed) {
+            return { ...sizedCard, visible: true, selected: true, isNew };
+          }
+          const userSetting = keptIds.has(card.id) ? userCardMap.get(card.id) : undefined;
+          const backfillOrder = backfillOrders.get(card.id);
+          const isShown = !!userSetting || backfillOrder !== undefined;
+          return {
+            ...sizedCard,
+            visible: isShown,
+            selected: isShown,
+            order: userSetting ? userSetting.order : backfillOrder !== undefined ? backfillOrder : card.order,
+            isNew,
+          };
+        });
+
+        console.log('Final cards after applying user settings:', updatedCards.map(c => ({ 
+          id: c.id, 
+          title: c.title, 
+          fixed: c.fixed, 
+          selected: c.selected, 
+          visible: c.visible 
+        })));
+
+        setCards(updatedCards);
+        setOriginalCards([...updatedCards]);
+        return;
       }
     } catch (error) {
-      console.log('No user settings found or error loading them:', error);
+      console.log('Could not apply the saved user settings:', error);
     }
 
-    // Default behavior when no user settings found
-    const defaultVisibleCards = initialCards.map((card, index) => ({
+    // Default behavior when no user settings found: fixed cards plus the first
+    // non-fixed cards (by default order) until every slot is filled
+    const defaultSelectableCount = Math.max(slotCount - initialCards.filter(c => c.fixed).length, 0);
+    const defaultSelectedIds = new Set<number>(
+      initialCards
+        .filter(c => !c.fixed)
+        .slice(0, defaultSelectableCount)
+        .map(c => c.id)
+    );
+    const defaultVisibleCards = initialCards.map(card => ({
       ...card,
-      visible: card.fixed || index < 4,
-      selected: card.fixed || index < 4,
+      visible: card.fixed || defaultSelectedIds.has(card.id),
+      selected: card.fixed || defaultSelectedIds.has(card.id),
     }));
     
     console.log('Using default card visibility:', defaultVisibleCards.map(c => ({ 
@@ -293,52 +538,78 @@ const ModernSharePointDashboard: React.FC<IModernSharePointDashboardProps> = (pr
     
     setCards(defaultVisibleCards);
     setOriginalCards([...defaultVisibleCards]);
-  }, [props.context]);
+  }, [props.context, slotCount]);
 
   const loadCardsFromSharePoint = useCallback(async (): Promise<void> => {
-    try {
-      const response: SPHttpClientResponse = await props.context.spHttpClient.get(
-        `${props.context.pageContext.web.absoluteUrl}/_api/web/lists/getbytitle('MasterCardList')/items?$select=Id,Title,Fixed,DefaultOrder,CardViewJSON,CardTooltip&$orderby=DefaultOrder`,
-        SPHttpClient.configurations.v1
-      );
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
+    const toDashboardCards = (masterCards: IMasterCard[]): ICard[] => masterCards.map(item => {
+      console.log(`Card "${item.title}": isFixed = ${item.fixed}`);
+
+      return {
+        id: item.id,
+        title: item.title,
+        order: item.defaultOrder,
+        visible: item.fixed,
+        selected: item.fixed,
+        fixed: item.fixed,
+        defaultOrder: item.defaultOrder,
+        cardViewJSON: item.cardViewJSON,
+        CardTooltip: item.cardTooltip,
+        columnSpan: item.defaultColumnSpan,
+        rowSpan: clampSpan(item.defaultRowSpan, MAX_ROW_SPAN),
+        dataSource: item.dataSource,
+        refreshInterval: item.refreshInterval,
+        created: item.created
+      };
+    });
 
-      const data = await response.json();
-      const items: ISharePointCardItem[] = data.value;
+    // Render the last known cards and layout straight away, then reconcile once the lists answer.
+    // Without cached memberships the cached render leaves out every targeted card.
+    const cachedCards = dataService.getCachedCards();
+    const cachedSettings = dataService.getCachedUserSettings();
+    const cachedAudience = dataService.getCachedUserAudience();
+    if (cachedCards) {
+      applyUserSettings(toDashboardCards(filterCardsForAudience(cachedCards, cachedAudience)), cachedSettings);
+    }
 
-      const cardsData: ICard[] = items.map((item, index) => {
-        // Handle Fixed field - SharePoint Yes/No column returns boolean directly
-        const isFixed = item.Fixed === true;
-        
-        console.log(`Card "${item.Title}": Fixed field value = ${item.Fixed} (type: ${typeof item.Fixed}), isFixed = ${isFixed}`);
-        
-        return {
-          id: item.Id,
-          title: item.Title,
-          order: item.DefaultOrder || index + 1,
-          visible: isFixed,
-          selected: isFixed,
-          fixed: isFixed,
-          defaultOrder: item.DefaultOrder || index + 1,
-          cardViewJSON: item.CardViewJSON || '',
-          CardTooltip: item.CardTooltip || ''
-        };
-      });
+    try {
+      console.log('Loading cards and user settings for:', props.context.pageContext.user.loginName);
+      const { cards: masterCards, userSettings, userAudience } = await dataService.getDashboardData();
+
+      // Keep the cached render (and anything the user started doing with it) when nothing changed
+      if (cachedCards && JSON.stringify(masterCards) === JSON.stringify(cachedCards) &&
+        JSON.stringify(userSettings) === JSON.stringify(cachedSettings) &&
+        JSON.stringify(userAudience) === JSON.stringify(cachedAudience)) {
+        return;
+      }
 
-      await loadUserSettings(cardsData);
+      // Cards the user may not see are left out entirely, so they are neither shown nor offered
+      const visibleCards = toDashboardCards(filterCardsForAudience(masterCards, userAudience));
+      if (isEditingRef.current) {
+        pendingReconcileRef.current = { cards: visibleCards, userSettings };
+        return;
+      }
+      applyUserSettings(visibleCards, userSettings);
     } catch (error) {
       console.error('Failed to load cards from SharePoint:', error);
-      setCards([]);
+      // A cached dashboard stays on screen; there is nothing better to show
+      if (!cachedCards) {
+        setCards([]);
+      }
     }
-  }, [props.context]);
+  }, [props.context, dataService, applyUserSettings]);
 
   useEffect(() => {
     loadCardsFromSharePoint().catch(console.error);
   }, [loadCardsFromSharePoint]);
 
+  useEffect(() => {
+    const pending = pendingReconcileRef.current;
+    if (!isEditing && pending) {
+      pendingReconcileRef.current = undefined;
+      applyUserSettings(pending.cards, pending.userSettings);
+    }
+  }, [isEditing, applyUserSettings]);
+
   const handleSelectionChange = (cardId: number, selected: boolean): void => {
     setCards(currentCards => {
       const newCards = currentCards.map(card => {
@@ -349,10 +620,11 @@ const ModernSharePointDashboard: React.FC<IModernSharePointDashboardProps> = (pr
       });
 
       const fixedCount = newCards.filter(c => c.fixed).length;
-      const requiredSelections = 4 - fixedCount;
+      const requiredSelections = Math.max(slotCount - fixedCount, 0);
       const newSelectableCount = newCards.filter(c => !c.fixed && c.selected).length;
 
-      if (newSelectableCount > requiredSelections) {
+      // Unselecting is always allowed, including when a new fixed card left the user over the limit
+      if (selected && newSelectableCount > requiredSelections) {
         return currentCards; // Abort change
       }
       return newCards;
@@ -369,324 +641,487 @@ const ModernSharePointDashboard: React.FC<IModernSharePointDashboardProps> = (pr
     dismissCustomizePanel();
   };
 
+  // The selected cards in display order, with their tile sizes, as stored in the user settings list
+  const toUserSettings = (cardsToSave: ICard[]): IUserSettings => {
+    const selectedCardsForSaving = cardsToSave
+      .filter(c => c.selected)
+      .sort((a, b) => a.order - b.order)
+      .map((c, index) => ({
+        id: c.id,
+        title: c.title,
+        order: index + 1, // Assign new order based on final position
+        columnSpan: c.columnSpan,
+        rowSpan: c.rowSpan,
+      }));
+
+    return {
+      schemaVersion: USER_SETTINGS_SCHEMA_VERSION,
+      timestamp: new Date().toISOString(),
+      selectedCards: selectedCardsForSaving,
+    };
+  };
+
+  // Saves the settings, resolving false when they conflict with a layout saved elsewhere; the user
+  // then chooses how to resolve that in the conflict dialog. Other failures reject.
+  const saveSettings = async (settings: IUserSettings, base: IUserSettings): Promise<boolean> => {
+    try {
+      await dataService.saveUserSettings(settings);
+      if (pendingReconcileRef.current) {
+        pendingReconcileRef.current.userSettings = settings;
+      }
+      return true;
+    } catch (error) {
+      if (error instanceof UserSettingsConflictError) {
+        console.warn('The dashboard layout was changed elsewhere since it was loaded.');
+        setSaveConflict({ base, mine: settings, stored: error.storedSettings });
+        return false;
+      }
+      throw error;
+    }
+  };
+
+  // Writes the selected cards to the user settings list; edits started from originalCards
+  const persistUserSettings = (cardsToSave: ICard[]): Promise<boolean> =>
+    saveSettings(toUserSettings(cardsToSave), toUserSettings(originalCards));
+
+  // Merge keeps this session's changes on top of the stored layout; overwrite saves this session's layout as is
+  const resolveSaveConflict = async (merge: boolean): Promise<void> => {
+    const { base, mine, stored } = saveConflict;
+    const settings = merge ? mergeUserSettings(base, mine, stored) : mine;
+    setSaveConflict(undefined);
+    try {
+      // The stored layout is what another conflict would have been edited from
+      if (!await saveSettings(settings, stored || base)) {
+        return;
+      }
+      setSaveStatus({ type: 'success', message: 'Your dashboard was saved.' });
+    } catch (error) {
+      console.error('Failed to save user settings:', error);
+      setSaveStatus({ type: 'error', message: 'There was an error saving your settings.' });
+      return;
+    }
+    // The conflicting save left any layout editing open; it is done now
+    if (merge) {
+      applyUserSettings(masterCardsRef.current, settings);
+    } else {
+      const savedCards = cards.map(card => ({ ...card, isNew: false }));
+      setCards(savedCards);
+      setOriginalCards(savedCards);
+    }
+    setIsEditingLayout(false);
+  };
+
+  const discardConflictingChanges = (): void => {
+    applyUserSettings(masterCardsRef.current, saveConflict.stored);
+    setSaveConflict(undefined);
+    setIsEditingLayout(false);
+  };
+
   const handleSave = async (): Promise<void> => {
+    // Saving moves the layout's timestamp past every card, so none is new any more
     const updatedCards = cards.map(card => ({
       ...card,
       visible: card.selected,
+      isNew: false,
     }));
 
     const visibleCount = updatedCards.filter(c => c.visible).length;
-    if (visibleCount > 4) {
-      alert(`You can only select up to 4 cards.`);
+    if (visibleCount > slotCount) {
+      setSaveStatus({ type: 'error', message: `You can only select up to ${slotCount} cards.` });
       return;
     }
 
     setCards(updatedCards);
 
     try {
-      const selectedCardsForSaving = updatedCards
-        .filter(c => c.selected)
-        .map((c, index) => ({
-          id: c.id,
-          title: c.title,
-          order: index + 1, // Assign new order based on final position
-        }));
-
-      const userSettingsJSON = {
-        timestamp: new Date().toISOString(),
-        selectedCards: selectedCardsForSaving,
-      };
+      if (await persistUserSettings(updatedCards)) {
+        setSaveStatus({ type: 'success', message: 'Your dashboard was saved.' });
+      }
+    } catch (error) {
+      console.error('Failed to save user settings:', error);
+      setSaveStatus({ type: 'error', message: 'There was an error saving your settings.' });
+    }
 
-      const currentUser = props.context.pageContext.user;
-      const userPrincipalName = currentUser.loginName;
-      const userName = currentUser.displayName;
+    dismissCustomizePanel();
+  };
 
-      const listName = 'UserSettingsList';
-      const siteUrl = props.context.pageContext.site.absoluteUrl;
-      const apiUrl = `${siteUrl}/_api/web/lists/getbytitle('${listName}')/items`;
+  const handleTileResize = (cardId: number, columnSpan: number, rowSpan: number): void => {
+    setCards(currentCards => currentCards.map(card =>
+      card.id === cardId ? { ...card, columnSpan, rowSpan } : card
+    ));
+  };
 
-      const getResponse = await props.context.spHttpClient.get(
-        `${apiUrl}?$filter=UserID eq '${userPrincipalName}'&$top=1`,
-        SPHttpClient.configurations.v1
-      );
+  const handleEditLayout = (): void => {
+    setOriginalCards([...cards]);
+    setIsEditingLayout(true);
+  };
 
-      const itemData = {
-        Title: userName,
-        UserID: userPrincipalName,
-        PersonalisedCards: JSON.stringify(userSettingsJSON),
-      };
+  const handleCancelLayout = (): void => {
+    setCards([...originalCards]);
+    setIsEditingLayout(false);
+  };
 
-      if (getResponse.ok) {
-        const data = await getResponse.json();
-        if (data.value && data.value.length > 0) {
-          const existingItemId = data.value[0].Id;
-          await props.context.spHttpClient.post(
-            `${apiUrl}(${existingItemId})`,
-            SPHttpClient.configurations.v1,
-            {
-              headers: { 'X-HTTP-Method': 'MERGE', 'IF-MATCH': '*' },
-              body: JSON.stringify(itemData),
-            }
-          );
-        } else {
-          await props.context.spHttpClient.post(apiUrl, SPHttpClient.configurations.v1, {
-            body: JSON.stringify(itemData),
-          });
-        }
+  const handleSaveLayout = async (): Promise<void> => {
+    try {
+      // On a conflict the layout stays in edit mode, with originalCards to go back to, until the user resolves it
+      if (!await persistUserSettings(cards)) {
+        return;
       }
-      console.log('User settings saved successfully.');
+      setSaveStatus({ type: 'success', message: 'Your dashboard layout was saved.' });
+      const savedCards = cards.map(card => ({ ...card, isNew: false }));
+      setCards(savedCards);
+      setOriginalCards(savedCards);
     } catch (error) {
-      console.error('Failed to save user settings:', error);
-      alert('There was an error saving your settings.');
+      console.error('Failed to save dashboard layout:', error);
+      setSaveStatus({ type: 'error', message: 'There was an error saving your dashboard layout.' });
+      return;
     }
-
-    dismissCustomizePanel();
+    setIsEditingLayout(false);
   };
 
   const fixedCount = cards.filter(c => c.fixed).length;
   const selectableCount = cards.filter(c => !c.fixed && c.selected).length;
-  const requiredUserSelections = 4 - fixedCount;
+  const requiredUserSelections = Math.max(slotCount - fixedCount, 0);
   const hasCorrectSelections = selectableCount === requiredUserSelections;
   const maxSelectionReached = selectableCount >= requiredUserSelections;
+  // Only after a new fixed card took a slot; saving now would drop the last card on the next load
+  const surplusSelections = Math.max(selectableCount - requiredUserSelections, 0);
+  const hasNewCards = cards.some(c => c.isNew);
 
   const renderDashboardGrid = (): JSX.Element[] => {
     const visibleCards = cards.filter(c => c.visible);
     const sortedCards = visibleCards.sort((a, b) => a.order - b.order);
-    const gridSlots: (ICard | null)[] = Array(4).fill(null);
+    // Cards moved along by a new fixed card get extra slots until the user gives one up
+    const gridSlotCount = Math.max(slotCount, visibleCards.length);
+    const gridSlots: (ICard | null)[] = Array(gridSlotCount).fill(null);
 
     const fixedCards = sortedCards.filter(c => c.fixed);
     const nonFixedCards = sortedCards.filter(c => !c.fixed);
 
     fixedCards.forEach(card => {
-      if (card.defaultOrder > 0 && card.defaultOrder <= 4) {
+      if (card.defaultOrder > 0 && card.defaultOrder <= slotCount) {
         gridSlots[card.defaultOrder - 1] = card;
       }
     });
 
     let nonFixedIndex = 0;
-    for (let i = 0; i < 4 && nonFixedIndex < nonFixedCards.length; i++) {
+    for (let i = 0; i < gridSlotCount && nonFixedIndex < nonFixedCards.length; i++) {
       if (gridSlots[i] === null) {
         gridSlots[i] = nonFixedCards[nonFixedIndex++];
       }
     }
 
-    return gridSlots
-      .filter(card => card !== null)
-      .map(card => (
+    const tileCards = gridSlots.filter(card => card !== null) as ICard[];
+    const placements = packGridTiles(
+      tileCards.map(card => ({ id: card.id, columnSpan: card.columnSpan, rowSpan: card.rowSpan })),
+      columns
+    );
+
+    return tileCards.map((card, index) => (
+      <DashboardTile
+        key={card.id}
+        card={card}
+        placement={placements[index]}
+        maxColumnSpan={columns}
+        isEditing={isEditingLayout}
+        onResize={(columnSpan, rowSpan) => handleTileResize(card.id, columnSpan, rowSpan)}
+      >
         <CardComponent
-          key={card!.id}
           cardData={{
-            id: card!.id,
-            title: card!.title,
-            cardViewJSON: card!.cardViewJSON,
-            CardTooltip: card!.CardTooltip
+            id: card.id,
+            title: card.title,
+            cardViewJSON: card.cardViewJSON,
+            CardTooltip: card.CardTooltip,
+            dataSource: card.dataSource,
+            refreshInterval: card.refreshInterval
           }}
+          dataService={dataService}
+          locale={props.context.pageContext.cultureInfo.currentCultureName}
+          hostConfig={cardHostConfig}
         />
-      ));
+      </DashboardTile>
+    ));
   };
 
   return (
-    <DndContext onDragStart={handleDragStart} onDragEnd={handleDragEnd}>
-      <section className={styles.modernSharePointDashboard}>
-        <div className={styles.headerBar}>
-          <PrimaryButton
-            iconProps={{ iconName: 'Settings' }}
-            text="Customize Dashboard"
-            className="customizeButton"
-            onClick={handleOpenCustomizePanel}
-          />
-        </div>
-        <div className={styles.dashboardGrid}>{renderDashboardGrid()}</div>
-        <Panel
-          isOpen={isCustomizePanelOpen}
-          onDismiss={handleCancel}
-          headerText="Customize Dashboard"
-          closeButtonAriaLabel="Close"
+    <ThemeProvider theme={props.theme as PartialTheme}>
+      <DndContext onDragStart={handleDragStart} onDragEnd={handleDragEnd}>
+        <section
+          className={`${styles.modernSharePointDashboard}${props.hasTeamsContext ? ` ${styles.teams}` : ''}${props.isDarkTheme ? ` ${styles.dark}` : ''}`}
+          style={themeVariables}
         >
-          <div className={styles.customizePanel}>
-            <div style={{ marginBottom: '16px', fontSize: '14px', color: '#605e5c' }}>
-              💡 Tip: Click and drag any card to reorder. Fixed cards (with lock icons) cannot be moved. Cards with blue backgrounds are selected.
+          {!props.hideCustomizeButton && (
+            <div className={styles.headerBar}>
+              {isEditingLayout ? (
+                <>
+                  <PrimaryButton
+                    iconProps={{ iconName: 'Save' }}
+                    text="Save Layout"
+                    className="customizeButton"
+                    onClick={handleSaveLayout}
+                    disabled={surplusSelections > 0}
+                    title={surplusSelections > 0 ? 'A new fixed card took one of your slots. Choose the card to remove in Customize Dashboard first.' : ''}
+                  />
+                  <DefaultButton text="Cancel" onClick={handleCancelLayout} />
+                </>
+              ) : (
+                <>
+                  <DefaultButton
+                    iconProps={{ iconName: 'Edit' }}
+                    text="Edit Layout"
+                    onClick={handleEditLayout}
+                  />
+                  <PrimaryButton
+                    iconProps={{ iconName: 'Settings' }}
+                    text="Customize Dashboard"
+                    className="customizeButton"
+                    onClick={handleOpenCustomizePanel}
+                  />
+                </>
+              )}
             </div>
+          )}
+          {saveStatus && (
+            <MessageBar
+              messageBarType={saveStatus.type === 'error' ? MessageBarType.error : MessageBarType.success}
+              onDismiss={() => setSaveStatus(undefined)}
+              dismissButtonAriaLabel="Close"
+              styles={{ root: { marginBottom: '8px' } }}
+            >
+              {saveStatus.message}
+            </MessageBar>
+          )}
+          <div
+            className={styles.dashboardGrid}
+            style={{
+              gridTemplateColumns: `repeat(${columns}, 1fr)`,
+              gridTemplateRows: `repeat(${rows}, ${GRID_ROW_HEIGHT}px)`
+            }}
+          >
+            {renderDashboardGrid()}
+          </div>
+          <Panel
+            isOpen={isCustomizePanelOpen}
+            onDismiss={handleCancel}
+            headerText="Customize Dashboard"
+            closeButtonAriaLabel="Close"
+          >
+            <div className={styles.customizePanel} style={themeVariables}>
+              <div style={{ marginBottom: '16px', fontSize: '14px', color: colors.subtleText }}>
+                💡 Tip: Click and drag any card to reorder. Fixed cards (with lock icons) cannot be moved. Cards with blue backgrounds are selected.
+              </div>
+              {hasNewCards && (
+                <div className={styles.newCardsBadge}>
+                  <Icon iconName="Glimmer" /> New cards available
+                </div>
+              )}
             
-            {/* Search Box */}
-            <div style={{ marginBottom: '16px', position: 'relative' }}>
-              <input
-                type="text"
-                placeholder="🔍 Search cards by name..."
-                value={searchText}
-                onChange={(e) => setSearchText(e.target.value)}
-                style={{
-                  width: '100%',
-                  padding: '8px 12px',
-                  paddingRight: searchText ? '40px' : '12px',
-                  border: '1px solid #8a8886',
-                  borderRadius: '4px',
-                  fontSize: '14px',
-                  fontFamily: '"Segoe UI", system-ui, sans-serif',
-                  boxSizing: 'border-box'
-                }}
-              />
-              {searchText && (
-                <button
-                  onClick={() => setSearchText('')}
+              {/* Search Box */}
+              <div style={{ marginBottom: '16px', position: 'relative' }}>
+                <input
+                  type="text"
+                  placeholder="🔍 Search cards by name..."
+                  value={searchText}
+                  onChange={(e) => setSearchText(e.target.value)}
                   style={{
-                    position: 'absolute',
-                    right: '8px',
-                    top: '50%',
-                    transform: 'translateY(-50%)',
-                    background: 'none',
-                    border: 'none',
-                    cursor: 'pointer',
-                    color: '#605e5c',
-                    fontSize: '16px',
-                    padding: '4px'
+                    width: '100%',
+                    padding: '8px 12px',
+                    paddingRight: searchText ? '40px' : '12px',
+                    border: `1px solid ${colors.inputBorder}`,
+                    borderRadius: '4px',
+                    fontSize: '14px',
+                    fontFamily: '"Segoe UI", system-ui, sans-serif',
+                    backgroundColor: colors.inputBackground,
+                    color: colors.inputText,
+                    boxSizing: 'border-box'
                   }}
-                  title="Clear search"
-                >
-                  ✕
-                </button>
-              )}
-            </div>
+                />
+                {searchText && (
+                  <button
+                    onClick={() => setSearchText('')}
+                    style={{
+                      position: 'absolute',
+                      right: '8px',
+                      top: '50%',
+                      transform: 'translateY(-50%)',
+                      background: 'none',
+                      border: 'none',
+                      cursor: 'pointer',
+                      color: colors.subtleText,
+                      fontSize: '16px',
+                      padding: '4px'
+                    }}
+                    title="Clear search"
+                  >
+                    ✕
+                  </button>
+                )}
+              </div>
             
-            {/* Selected Cards Section */}
-            {(() => {
-              // Filter cards by search text first
-              const filteredCards = cards.filter(card => 
-                card.title.toLowerCase().includes(searchText.toLowerCase())
-              );
-
-              // Separate filtered cards into categories
-              const userSelectedCards = filteredCards
-                .filter(card => card.selected && !card.fixed)
-                .sort((a, b) => a.order - b.order);
-
-              const fixedCards = filteredCards
-                .filter(card => card.selected && card.fixed)
-                .sort((a, b) => a.defaultOrder - b.defaultOrder);
-
-              const unselectedCards = filteredCards
-                .filter(card => !card.selected)
-                .sort((a, b) => a.defaultOrder - b.defaultOrder);
-
-              // Combine arrays: user-selected first, then fixed, then unselected
-              const sortedCards = [...userSelectedCards, ...fixedCards, ...unselectedCards];
-
-              // Check if we have any results
-              const hasResults = sortedCards.length > 0;
-              const isSearching = searchText.trim() !== '';
-
-              return (
-                <>
-                  {isSearching && !hasResults && (
-                    <div style={{ 
-                      padding: '16px', 
-                      textAlign: 'center', 
-                      color: '#605e5c',
-                      backgroundColor: '#f3f2f1',
-                      border: '1px solid #edebe9',
-                      borderRadius: '4px',
-                      marginBottom: '12px'
-                    }}>
-                      No cards found matching &quot;{searchText}&quot;
-                    </div>
-                  )}
-
-                  {userSelectedCards.length > 0 && (
-                    <div style={{ marginBottom: '12px' }}>
+              {/* Selected Cards Section */}
+              {(() => {
+                // Filter cards by search text first
+                const filteredCards = cards.filter(card => 
+                  card.title.toLowerCase().includes(searchText.toLowerCase())
+                );
+
+                // Separate filtered cards into categories
+                const userSelectedCards = filteredCards
+                  .filter(card => card.selected && !card.fixed)
+                  .sort((a, b) => a.order - b.order);
+
+                const fixedCards = filteredCards
+                  .filter(card => card.selected && card.fixed)
+                  .sort((a, b) => a.defaultOrder - b.defaultOrder);
+
+                const unselectedCards = filteredCards
+                  .filter(card => !card.selected)
+                  .sort((a, b) => a.defaultOrder - b.defaultOrder);
+
+                // Combine arrays: user-selected first, then fixed, then unselected
+                const sortedCards = [...userSelectedCards, ...fixedCards, ...unselectedCards];
+
+                // Check if we have any results
+                const hasResults = sortedCards.length > 0;
+                const isSearching = searchText.trim() !== '';
+
+                return (
+                  <>
+                    {isSearching && !hasResults && (
                       <div style={{ 
-                        fontSize: '13px', 
-                        fontWeight: '600', 
-                        color: '#0078d4', 
-                        marginBottom: '8px',
-                        borderBottom: '1px solid #edebe9',
-                        paddingBottom: '4px'
+                        padding: '16px', 
+                        textAlign: 'center', 
+                        color: colors.subtleText,
+                        backgroundColor: colors.emphasisBackground,
+                        border: `1px solid ${colors.border}`,
+                        borderRadius: '4px',
+                        marginBottom: '12px'
                       }}>
-                        User Selected Cards ({userSelectedCards.length})
+                        No cards found matching &quot;{searchText}&quot;
                       </div>
-                      {userSelectedCards.map((card, index) => (
-                        <DraggableCard
-                          key={card.id}
-                          card={card}
-                          index={sortedCards.findIndex(c => c.id === card.id)}
-                          onSelectionChange={handleSelectionChange}
-                          maxSelectionReached={maxSelectionReached}
-                          requiredUserSelections={requiredUserSelections}
-                        />
-                      ))}
-                    </div>
-                  )}
-
-                  {fixedCards.length > 0 && (
-                    <div style={{ marginBottom: '12px' }}>
-                      <div style={{ 
-                        fontSize: '13px', 
-                        fontWeight: '600', 
-                        color: '#107c10', 
-                        marginBottom: '8px',
-                        borderBottom: '1px solid #edebe9',
-                        paddingBottom: '4px'
-                      }}>
-                        Fixed Cards ({fixedCards.length})
+                    )}
+
+                    {userSelectedCards.length > 0 && (
+                      <div style={{ marginBottom: '12px' }}>
+                        <div style={{ 
+                          fontSize: '13px', 
+                          fontWeight: '600', 
+                          color: colors.accent,
+                          marginBottom: '8px',
+                          borderBottom: `1px solid ${colors.border}`,
+                          paddingBottom: '4px'
+                        }}>
+                          User Selected Cards ({userSelectedCards.length})
+                        </div>
+                        {userSelectedCards.map((card, index) => (
+                          <DraggableCard
+                            key={card.id}
+                            card={card}
+                            index={sortedCards.findIndex(c => c.id === card.id)}
+                            onSelectionChange={handleSelectionChange}
+                            maxSelectionReached={maxSelectionReached}
+                            requiredUserSelections={requiredUserSelections}
+                          />
+                        ))}
                       </div>
-                      {fixedCards.map((card, index) => (
-                        <DraggableCard
-                          key={card.id}
-                          card={card}
-                          index={sortedCards.findIndex(c => c.id === card.id)}
-                          onSelectionChange={handleSelectionChange}
-                          maxSelectionReached={maxSelectionReached}
-                          requiredUserSelections={requiredUserSelections}
-                        />
-                      ))}
-                    </div>
-                  )}
-
-                  {unselectedCards.length > 0 && (
-                    <div style={{ marginBottom: '12px' }}>
-                      <div style={{ 
-                        fontSize: '13px', 
-                        fontWeight: '600', 
-                        color: '#605e5c', 
-                        marginBottom: '8px',
-                        borderBottom: '1px solid #edebe9',
-                        paddingBottom: '4px'
-                      }}>
-                        Available Cards ({unselectedCards.length})
+                    )}
+
+                    {fixedCards.length > 0 && (
+                      <div style={{ marginBottom: '12px' }}>
+                        <div style={{ 
+                          fontSize: '13px', 
+                          fontWeight: '600', 
+                          color: colors.good,
+                          marginBottom: '8px',
+                          borderBottom: `1px solid ${colors.border}`,
+                          paddingBottom: '4px'
+                        }}>
+                          Fixed Cards ({fixedCards.length})
+                        </div>
+                        {fixedCards.map((card, index) => (
+                          <DraggableCard
+                            key={card.id}
+                            card={card}
+                            index={sortedCards.findIndex(c => c.id === card.id)}
+                            onSelectionChange={handleSelectionChange}
+                            maxSelectionReached={maxSelectionReached}
+                            requiredUserSelections={requiredUserSelections}
+                          />
+                        ))}
                       </div>
-                      {unselectedCards.map((card, index) => (
-                        <DraggableCard
-                          key={card.id}
-                          card={card}
-                          index={sortedCards.findIndex(c => c.id === card.id)}
-                          onSelectionChange={handleSelectionChange}
-                          maxSelectionReached={maxSelectionReached}
-                          requiredUserSelections={requiredUserSelections}
-                        />
-                      ))}
-                    </div>
-                  )}
-                </>
-              );
-            })()}
+                    )}
+
+                    {unselectedCards.length > 0 && (
+                      <div style={{ marginBottom: '12px' }}>
+                        <div style={{ 
+                          fontSize: '13px', 
+                          fontWeight: '600', 
+                          color: colors.subtleText,
+                          marginBottom: '8px',
+                          borderBottom: `1px solid ${colors.border}`,
+                          paddingBottom: '4px'
+                        }}>
+                          Available Cards ({unselectedCards.length})
+                        </div>
+                        {unselectedCards.map((card, index) => (
+                          <DraggableCard
+                            key={card.id}
+                            card={card}
+                            index={sortedCards.findIndex(c => c.id === card.id)}
+                            onSelectionChange={handleSelectionChange}
+                            maxSelectionReached={maxSelectionReached}
+                            requiredUserSelections={requiredUserSelections}
+                          />
+                        ))}
+                      </div>
+                    )}
+                  </>
+                );
+              })()}
             
-            <div style={{ marginTop: '16px', padding: '8px 12px', backgroundColor: '#f3f2f1', borderRadius: '4px' }}>
-              <div style={{ fontSize: '12px', color: '#605e5c', fontWeight: '600' }}>
-                Selection Status: {fixedCount} fixed, {selectableCount}/{requiredUserSelections} selectable selected.
+              <div style={{ marginTop: '16px', padding: '8px 12px', backgroundColor: colors.emphasisBackground, borderRadius: '4px' }}>
+                <div style={{ fontSize: '12px', color: colors.subtleText, fontWeight: '600' }}>
+                  Selection Status: {fixedCount} fixed, {selectableCount}/{requiredUserSelections} selectable selected ({slotCount} slots).
+                </div>
+                {surplusSelections > 0 && (
+                  <div style={{ marginTop: '4px', fontSize: '12px', color: colors.warning }}>
+                    A new fixed card took one of your slots. Unselect {surplusSelections} card(s) to save.
+                  </div>
+                )}
+              </div>
+              <div style={{ marginTop: '20px', display: 'flex', gap: '12px' }}>
+                <PrimaryButton
+                  text="Save"
+                  onClick={handleSave}
+                  disabled={!hasCorrectSelections}
+                  title={surplusSelections > 0
+                    ? `Please unselect ${surplusSelections} card(s).`
+                    : !hasCorrectSelections ? `Please select exactly ${requiredUserSelections} more card(s).` : ''}
+                />
+                <DefaultButton text="Cancel" onClick={handleCancel} />
               </div>
             </div>
-            <div style={{ marginTop: '20px', display: 'flex', gap: '12px' }}>
-              <PrimaryButton
-                text="Save"
-                onClick={handleSave}
-                disabled={!hasCorrectSelections}
-                title={!hasCorrectSelections ? `Please select exactly ${requiredUserSelections} more card(s).` : ''}
-              />
-              <DefaultButton text="Cancel" onClick={handleCancel} />
-            </div>
-          </div>
-        </Panel>
-      </section>
-    </DndContext>
+          </Panel>
+          <Dialog
+            hidden={!saveConflict}
+            onDismiss={() => setSaveConflict(undefined)}
+            dialogContentProps={{
+              type: DialogType.normal,
+              title: 'Your dashboard was changed elsewhere',
+              subText: 'Your layout was saved in another tab or in Teams after you opened it here. ' +
+                'Merge your changes into that layout, or overwrite it with the layout shown here?'
+            }}
+            modalProps={{ isBlocking: true }}
+          >
+            <DialogFooter>
+              <PrimaryButton text="Merge" onClick={() => resolveSaveConflict(true).catch(console.error)} />
+              <DefaultButton text="Overwrite" onClick={() => resolveSaveConflict(false).catch(console.error)} />
+              <DefaultButton text="Discard my changes" onClick={discardConflictingChanges} />
+            </DialogFooter>
+          </Dialog>
+        </section>
+      </DndContext>
+    </ThemeProvider>
   );
 };
 
@@ -3,6 +3,18 @@ define([], function() {
     "PropertyPaneDescription": "Description",
     "BasicGroupName": "Group Name",
     "DescriptionFieldLabel": "Description Field",
+    "DataSourceGroupName": "Data sources",
+    "MasterListScopeFieldLabel": "Card list location",
+    "MasterListFieldLabel": "Card list",
+    "SettingsListScopeFieldLabel": "User settings list location",
+    "SettingsListFieldLabel": "User settings list",
+    "ScopeWebOptionText": "This site",
+    "ScopeSiteOptionText": "Site collection root",
+    "LayoutGroupName": "Layout",
+    "SlotCountFieldLabel": "Number of card slots",
+    "ColumnsFieldLabel": "Columns",
+    "RowsFieldLabel": "Rows",
+    "HideCustomizeButtonFieldLabel": "Hide the Customize Dashboard button",
     "AppLocalEnvironmentSharePoint": "The app is running on your local environment as SharePoint web part",
     "AppLocalEnvironmentTeams": "The app is running on your local environment as Microsoft Teams app",
     "AppLocalEnvironmentOffice": "The app is running on your local environment in office.com",
@@ -2,6 +2,18 @@ declare interface IModernSharePointDashboardWebPartStrings {
   PropertyPaneDescription: string;
   BasicGroupName: string;
   DescriptionFieldLabel: string;
+  DataSourceGroupName: string;
+  MasterListScopeFieldLabel: string;
+  MasterListFieldLabel: string;
+  SettingsListScopeFieldLabel: string;
+  SettingsListFieldLabel: string;
+  ScopeWebOptionText: string;
+  ScopeSiteOptionText: string;
+  LayoutGroupName: string;
+  SlotCountFieldLabel: string;
+  ColumnsFieldLabel: string;
+  RowsFieldLabel: string;
+  HideCustomizeButtonFieldLabel: string;
   AppLocalEnvironmentSharePoint: string;
   AppLocalEnvironmentTeams: string;
   AppLocalEnvironmentOffice: string;
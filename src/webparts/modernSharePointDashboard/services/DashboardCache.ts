@@ -0,0 +1,51 @@
+// Bump when the shape of cached values changes, so older entries are ignored instead of misread
+const CACHE_PREFIX = 'ModernSharePointDashboard:v1:';
+
+export interface ICacheEntry<T> {
+  value: T;
+  // Marks the source state the value was read from (such as a list's last modified date)
+  version?: string;
+  savedAt: string;
+}
+
+// Last known dashboard data in localStorage, so the dashboard can render before SharePoint answers.
+// Storage failures (private browsing, quota) only cost the cache, never the dashboard.
+export class DashboardCache {
+  private _storage: Storage | undefined;
+
+  constructor(storage?: Storage) {
+    try {
+      this._storage = storage || window.localStorage;
+    } catch {
+      // Access to localStorage throws when the browser blocks site data
+      this._storage = undefined;
+    }
+  }
+
+  public read<T>(key: string): ICacheEntry<T> | undefined {
+    try {
+      const json = this._storage?.getItem(CACHE_PREFIX + key);
+      return json ? JSON.parse(json) : undefined;
+    } catch (error) {
+      console.warn(`Ignoring unreadable dashboard cache entry "${key}":`, error);
+      return undefined;
+    }
+  }
+
+  public write<T>(key: string, value: T, version?: string): void {
+    const entry: ICacheEntry<T> = { value, version, savedAt: new Date().toISOString() };
+    try {
+      this._storage?.setItem(CACHE_PREFIX + key, JSON.stringify(entry));
+    } catch (error) {
+      console.warn(`Could not cache dashboard data "${key}":`, error);
+    }
+  }
+
+  public remove(key: string): void {
+    try {
+      this._storage?.removeItem(CACHE_PREFIX + key);
+    } catch {
+      // Nothing cached to remove
+    }
+  }
+}
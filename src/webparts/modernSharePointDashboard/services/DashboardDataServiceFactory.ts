@@ -0,0 +1,24 @@
+import { Environment, EnvironmentType } from '@microsoft/sp-core-library';
+import { WebPartContext } from '@microsoft/sp-webpart-base';
+import { getSP } from '../../../pnpjsConfig';
+import { IDashboardDataService, IDashboardDataServiceOptions } from './IDashboardDataService';
+import { InMemoryDashboardDataService } from './InMemoryDashboardDataService';
+import { SharePointDashboardDataService } from './SharePointDashboardDataService';
+
+// Query string parameter that shows the JSON fixtures instead of the lists, e.g. in the hosted workbench
+// during gulp serve. Layouts saved with it only live in memory and nothing is written to the site.
+const SAMPLE_DATA_PARAMETER = 'dashboardSampleData';
+
+const isSampleDataRequested = (): boolean =>
+  new URLSearchParams(window.location.search).has(SAMPLE_DATA_PARAMETER);
+
+// Uses the JSON fixtures outside SharePoint (tests) or when asked for in the URL, and the lists everywhere else
+export const createDashboardDataService = (
+  context: WebPartContext,
+  options: IDashboardDataServiceOptions
+): IDashboardDataService => {
+  if (Environment.type === EnvironmentType.Local || Environment.type === EnvironmentType.Test || isSampleDataRequested()) {
+    return new InMemoryDashboardDataService();
+  }
+  return new SharePointDashboardDataService(getSP(context), options, context.msGraphClientFactory);
+};
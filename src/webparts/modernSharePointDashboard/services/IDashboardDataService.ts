@@ -0,0 +1,114 @@
+import type { ListScope } from '../components/IModernSharePointDashboardProps';
+
+// Where a card's template data comes from: items of a list, or a SharePoint REST URL
+// (absolute, server-relative or relative to the current web). The result is bound as $root.
+export interface ICardDataSource {
+  listName?: string;
+  scope?: ListScope;
+  select?: string;
+  filter?: string;
+  top?: number;
+  url?: string;
+}
+
+// The list item an Action.Submit or Action.Execute writes to: a new item, or itemId when set
+export interface ICardItemTarget {
+  listName: string;
+  scope?: ListScope;
+  itemId?: number;
+}
+
+// Who may see a card: members of any of the groups listed, or users holding any of the permission levels.
+// Cards without an audience are shown to everyone.
+export interface ICardAudience {
+  // SharePoint group names in this site collection
+  sharePointGroups?: string[];
+  // Azure AD group object IDs (security or Microsoft 365 groups); nested membership counts
+  aadGroups?: string[];
+  // Permission level names on the current web, such as "Full Control" or "Edit"
+  permissionLevels?: string[];
+}
+
+// The current user's memberships. aadGroups only covers the groups that cards target.
+export interface IUserAudience {
+  sharePointGroups: string[];
+  aadGroups: string[];
+  permissionLevels: string[];
+}
+
+// A card definition as stored in the master card list
+export interface IMasterCard {
+  id: number;
+  title: string;
+  fixed: boolean;
+  defaultOrder: number;
+  cardViewJSON: string;
+  cardTooltip?: string;
+  // Default tile size in grid cells
+  defaultColumnSpan: number;
+  defaultRowSpan: number;
+  dataSource?: ICardDataSource;
+  // Seconds between refreshes of the card's data source; no automatic refresh when missing
+  refreshInterval?: number;
+  // When the card was published (ISO 8601), to tell users about cards added since they saved their layout
+  created?: string;
+  // Fixed cards with an audience replace the untargeted fixed card of the same defaultOrder for that audience
+  audience?: ICardAudience;
+}
+
+export interface ISelectedCard {
+  id: number;
+  title: string;
+  order: number;
+  // Tile size chosen by the user; falls back to the card's default when missing
+  columnSpan?: number;
+  rowSpan?: number;
+}
+
+// Shape of the PersonalisedCards JSON stored per user in the user settings list; stored settings
+// are read through upgradeUserSettings in userSettingsSchema.ts, which migrates older versions
+export interface IUserSettings {
+  // USER_SETTINGS_SCHEMA_VERSION of the web part that wrote the settings
+  schemaVersion: number;
+  timestamp: string;
+  selectedCards: ISelectedCard[];
+}
+
+// Where the dashboard lists live and who the settings belong to
+export interface IDashboardDataServiceOptions {
+  webUrl: string;
+  siteUrl: string;
+  masterListName: string;
+  masterListScope: ListScope;
+  settingsListName: string;
+  settingsListScope: ListScope;
+  // Stable identity the user's settings are stored under: the Azure AD object ID, the same in SharePoint and Teams
+  userId: string;
+  // Only used to find (and migrate) settings saved under the login name by older versions
+  userLoginName: string;
+  userDisplayName: string;
+}
+
+// Everything the dashboard needs to render, loaded together
+export interface IDashboardData {
+  cards: IMasterCard[];
+  // Undefined when the current user has not saved a layout yet (or it could not be read)
+  userSettings?: IUserSettings;
+  // Cards are not filtered here: filterCardsForAudience in utils/audience.ts does that with these memberships
+  userAudience: IUserAudience;
+}
+
+export interface IDashboardDataService {
+  getDashboardData(): Promise<IDashboardData>;
+  // Last known cards and settings, possibly stale, for rendering before the lists answer;
+  // undefined when nothing is cached
+  getCachedCards(): IMasterCard[] | undefined;
+  getCachedUserSettings(): IUserSettings | undefined;
+  getCachedUserAudience(): IUserAudience | undefined;
+  // Rejects with a UserSettingsConflictError when the stored settings changed since they were last read
+  // or saved here; saving again after that overwrites them
+  saveUserSettings(settings: IUserSettings): Promise<void>;
+  getCardData(dataSource: ICardDataSource): Promise<unknown>;
+  // Field names are the input ids (and action data keys), which must match the list's internal names
+  saveCardItem(target: ICardItemTarget, fields: { [field: string]: unknown }): Promise<void>;
+}
@@ -0,0 +1,87 @@
+import {
+  ICardDataSource,
+  ICardItemTarget,
+  IDashboardData,
+  IDashboardDataService,
+  IMasterCard,
+  IUserAudience,
+  IUserSettings
+} from './IDashboardDataService';
+import { sampleCardData, sampleCards } from './sampleDashboardData';
+import { upgradeUserSettings } from './userSettingsSchema';
+
+// Keeps cards and user settings in memory; used in the local workbench and for tests
+export class InMemoryDashboardDataService implements IDashboardDataService {
+  private _cards: IMasterCard[];
+  private _userSettings: IUserSettings | undefined;
+  // Card data results keyed by data source list name or URL
+  private _cardData: { [source: string]: unknown };
+  private _userAudience: IUserAudience;
+
+  constructor(
+    cards: IMasterCard[] = sampleCards,
+    userSettings?: IUserSettings,
+    cardData: { [source: string]: unknown } = sampleCardData,
+    userAudience: IUserAudience = { sharePointGroups: [], aadGroups: [], permissionLevels: [] }
+  ) {
+    this._cards = cards;
+    this._userSettings = userSettings;
+    // A copy, so items saved through saveCardItem stay in this instance and never change the fixtures
+    this._cardData = JSON.parse(JSON.stringify(cardData));
+    this._userAudience = userAudience;
+  }
+
+  public getDashboardData(): Promise<IDashboardData> {
+    return Promise.resolve({
+      cards: [...this._cards]
+        .sort((a, b) => a.defaultOrder - b.defaultOrder)
+        .map(card => ({ ...card })),
+      userSettings: this._userSettings ? upgradeUserSettings(JSON.parse(JSON.stringify(this._userSettings))) : undefined,
+      userAudience: JSON.parse(JSON.stringify(this._userAudience))
+    });
+  }
+
+  // Fixtures answer immediately, so there is nothing to cache
+  public getCachedCards(): IMasterCard[] | undefined {
+    return undefined;
+  }
+
+  public getCachedUserSettings(): IUserSettings | undefined {
+    return undefined;
+  }
+
+  public getCachedUserAudience(): IUserAudience | undefined {
+    return undefined;
+  }
+
+  public saveUserSettings(settings: IUserSettings): Promise<void> {
+    this._userSettings = JSON.parse(JSON.stringify(settings));
+    return Promise.resolve();
+  }
+
+  // Filters are not evaluated here; fixtures are returned as stored, trimmed to $top
+  public getCardData(dataSource: ICardDataSource): Promise<unknown> {
+    const data = this._cardData[dataSource.url || dataSource.listName || ''];
+    if (Array.isArray(data) && dataSource.top) {
+      return Promise.resolve(JSON.parse(JSON.stringify(data.slice(0, dataSource.top))));
+    }
+    return Promise.resolve(data !== undefined ? JSON.parse(JSON.stringify(data)) : []);
+  }
+
+  // Writes into the fixture list of the same name, so cards bound to it show the change
+  public saveCardItem(target: ICardItemTarget, fields: { [field: string]: unknown }): Promise<void> {
+    const items = (this._cardData[target.listName] || []) as { [field: string]: unknown }[];
+    if (target.itemId) {
+      const item = items.filter(existing => existing.Id === target.itemId)[0];
+      if (!item) {
+        return Promise.reject(new Error(`Item ${target.itemId} was not found in ${target.listName}.`));
+      }
+      Object.assign(item, fields);
+    } else {
+      const nextId = items.reduce((maxId, existing) => Math.max(maxId, Number(existing.Id) || 0), 0) + 1;
+      items.push({ Id: nextId, ...fields });
+    }
+    this._cardData[target.listName] = items;
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,380 @@
+import type { WebPartContext } from '@microsoft/sp-webpart-base';
+import { SPFI, SPQueryable } from '@pnp/sp';
+import { Web, IWeb } from '@pnp/sp/webs';
+import { IList } from '@pnp/sp/lists';
+import { IItems } from '@pnp/sp/items';
+import { createBatch } from '@pnp/sp/batching';
+import type { TimelinePipe } from '@pnp/core';
+import type { ListScope } from '../components/IModernSharePointDashboardProps';
+import {
+  ICardAudience,
+  ICardDataSource,
+  ICardItemTarget,
+  IDashboardData,
+  IDashboardDataService,
+  IDashboardDataServiceOptions,
+  IMasterCard,
+  IUserAudience,
+  IUserSettings
+} from './IDashboardDataService';
+import { DashboardCache } from './DashboardCache';
+import { UserSettingsConflictError } from './UserSettingsConflictError';
+import { parseUserSettings, upgradeUserSettings } from './userSettingsSchema';
+import { odataString } from '../utils/odata';
+import { getTargetedAadGroups } from '../utils/audience';
+
+interface ISharePointCardItem {
+  Id: number;
+  Title: string;
+  Fixed: boolean; // SharePoint Yes/No (checkbox) column returns boolean
+  DefaultOrder: number;
+  CardViewJSON: string;
+  CardTooltip?: string;
+  ColumnSpan?: number;
+  RowSpan?: number;
+  DataSource?: string;
+  RefreshInterval?: number;
+  Created: string;
+  Audience?: string;
+}
+
+// SharePoint returns the 64 permission bits as two 32-bit halves, sometimes as strings
+interface ISharePointBasePermissions {
+  High: number | string;
+  Low: number | string;
+}
+
+interface ISharePointRoleDefinition {
+  Name: string;
+  BasePermissions: ISharePointBasePermissions;
+}
+
+// Microsoft Graph checks at most this many groups per checkMemberGroups request
+const MAX_GROUPS_PER_CHECK = 20;
+
+interface ISharePointListInfo {
+  LastItemModifiedDate: string;
+  LastItemDeletedDate: string;
+}
+
+interface ISharePointUserSettingsItem {
+  Id: number;
+  // The user's stable ID; older items hold the login name instead
+  UserID: string;
+  PersonalisedCards: string;
+  // Returned with every item, selected or not
+  'odata.etag': string;
+}
+
+// Reads cards and user settings from SharePoint lists through PnPjs. Both are cached in the browser:
+// cards until the master list changes, settings until the next read or save.
+export class SharePointDashboardDataService implements IDashboardDataService {
+  private _cache: DashboardCache = new DashboardCache();
+  // The current user's settings item, once a load or save has found it; saves then skip the lookup
+  private _settingsItemId: number | undefined;
+  private _isSettingsItemKnown: boolean = false;
+  // Version of the settings item last read or written here; a save only succeeds while it is current
+  private _settingsETag: string | undefined;
+
+  constructor(
+    private _sp: SPFI,
+    private _options: IDashboardDataServiceOptions,
+    // Only needed for cards targeted at Azure AD groups; without it those cards are hidden
+    private _graphClientFactory?: WebPartContext['msGraphClientFactory']
+  ) {}
+
+  // One $batch round trip for the master list state, its cards, the user's settings and their SharePoint
+  // groups and permissions. With cached cards the card items are left out, and fetched separately only
+  // when the list has changed since. Azure AD groups are checked afterwards, for the cards targeting them.
+  public async getDashboardData(): Promise<IDashboardData> {
+    const cached = this._cache.read<IMasterCard[]>(this._cardsCacheKey);
+    // Both lists live in this site collection, so its root web can run the batch
+    const [batched, executeBatch] = createBatch(this._getWeb('site'));
+
+    const requests = Promise.all([
+      // Any added, edited or deleted card moves one of these dates
+      this._getMasterList().using(batched).select('LastItemModifiedDate', 'LastItemDeletedDate')<ISharePointListInfo>(),
+      cached ? Promise.resolve(undefined) : this._getCardItems(batched),
+      this._getUserSettingsItem(batched).catch(error => {
+        console.warn('Could not load the user settings:', error);
+        return undefined;
+      }),
+      this._getSharePointAudience(batched).catch(error => {
+        console.warn('Could not load the user\'s SharePoint groups and permissions:', error);
+        return { sharePointGroups: [] as string[], permissionLevels: [] as string[] };
+      })
+    ]);
+    const [, [listInfo, batchedItems, settingsItem, sharePointAudience]] = await Promise.all([executeBatch(), requests]);
+
+    const version = `${listInfo.LastItemModifiedDate}|${listInfo.LastItemDeletedDate}`;
+    let cards: IMasterCard[];
+    if (cached && cached.version === version) {
+      cards = cached.value;
+    } else {
+      cards = this._toMasterCards(batchedItems || await this._getCardItems());
+      this._cache.write(this._cardsCacheKey, cards, version);
+    }
+
+    const userSettings = this._trackSettingsItem(settingsItem);
+    // Awaited so the load only resolves with the item's ETag after the migration; a save sent earlier
+    // would otherwise conflict with it
+    if (settingsItem && settingsItem.UserID !== this._options.userId) {
+      await this._migrateSettingsItem(settingsItem).catch(error => console.warn('Could not migrate the user settings item:', error));
+    }
+
+    const aadGroups = await this._getAadGroupMemberships(getTargetedAadGroups(cards)).catch(error => {
+      console.warn('Could not check the user\'s Azure AD groups:', error);
+      return [] as string[];
+    });
+    const userAudience: IUserAudience = { ...sharePointAudience, aadGroups };
+    this._cache.write(this._audienceCacheKey, userAudience);
+
+    return { cards, userSettings, userAudience };
+  }
+
+  public getCachedCards(): IMasterCard[] | undefined {
+    return this._cache.read<IMasterCard[]>(this._cardsCacheKey)?.value;
+  }
+
+  public getCachedUserSettings(): IUserSettings | undefined {
+    // Entries cached by an older version of the web part are migrated like stored settings
+    const cached = this._cache.read<IUserSettings>(this._settingsCacheKey);
+    return cached ? upgradeUserSettings(cached.value) : undefined;
+  }
+
+  public getCachedUserAudience(): IUserAudience | undefined {
+    return this._cache.read<IUserAudience>(this._audienceCacheKey)?.value;
+  }
+
+  public async saveUserSettings(settings: IUserSettings): Promise<void> {
+    const { settingsListScope, settingsListName, userId, userDisplayName } = this._options;
+    const items = this._getItems(settingsListScope, settingsListName);
+    const itemData = {
+      Title: userDisplayName,
+      UserID: userId,
+      PersonalisedCards: JSON.stringify(settings),
+    };
+
+    // A single MERGE or POST once the item is known; a lookup first only when saving before any load
+    if (!this._isSettingsItemKnown) {
+      this._trackSettingsItem(await this._getUserSettingsItem());
+    }
+    // PnPjs rejects on any status other than 2xx, so reaching the end means the list took the save
+    try {
+      if (this._settingsItemId) {
+        const { etag } = await items.getById(this._settingsItemId).update(itemData, this._settingsETag || '*');
+        this._settingsETag = etag;
+      } else {
+        // Adds have no ETag to guard them: another tab may have created the item since it was found missing.
+        // Saving over that item unseen would lose its layout, so it is reported like any other conflict.
+        const existingItem = await this._getUserSettingsItem();
+        if (existingItem) {
+          throw new UserSettingsConflictError(this._trackSettingsItem(existingItem));
+        }
+        const addedItem: ISharePointUserSettingsItem = await items.add(itemData);
+        this._settingsItemId = addedItem.Id;
+        this._settingsETag = addedItem['odata.etag'];
+      }
+    } catch (error) {
+      if ((error as { status?: number }).status === 412) {
+        // Reading the stored settings also takes their ETag, so saving again overwrites them
+        throw new UserSettingsConflictError(this._trackSettingsItem(await this._getUserSettingsItem()));
+      }
+      throw error;
+    }
+    this._cache.write(this._settingsCacheKey, settings);
+  }
+
+  public async getCardData(dataSource: ICardDataSource): Promise<unknown> {
+    if (dataSource.url) {
+      const url = new URL(dataSource.url, `${this._options.webUrl}/`);
+      if (url.origin !== new URL(this._options.webUrl).origin) {
+        throw new Error(`Card data URLs must point to this SharePoint tenant: ${dataSource.url}`);
+      }
+      return SPQueryable([this._sp.web, url.toString()])();
+    }
+
+    if (!dataSource.listName) {
+      throw new Error('A card data source needs either a listName or a url.');
+    }
+
+    const items = this._getItems(dataSource.scope || 'web', dataSource.listName);
+    if (dataSource.select) {
+      items.select(...dataSource.select.split(',').map(field => field.trim()));
+    }
+    if (dataSource.filter) {
+      items.filter(dataSource.filter);
+    }
+    if (dataSource.top) {
+      items.top(dataSource.top);
+    }
+    return items();
+  }
+
+  public async saveCardItem(target: ICardItemTarget, fields: { [field: string]: unknown }): Promise<void> {
+    const items = this._getItems(target.scope || 'web', target.listName);
+    if (target.itemId) {
+      await items.getById(target.itemId).update(fields);
+    } else {
+      await items.add(fields);
+    }
+  }
+
+  private _parseJsonColumn<T>(item: ISharePointCardItem, column: 'DataSource' | 'Audience'): T | undefined {
+    if (!item[column]) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(item[column]);
+    } catch (error) {
+      console.warn(`Ignoring invalid ${column} JSON on card "${item.Title}":`, error);
+      return undefined;
+    }
+  }
+
+  // All columns: the optional ones (ColumnSpan, RowSpan, DataSource, RefreshInterval, Audience) were added
+  // over time, and naming one a list does not have would fail the whole request
+  private _getCardItems(batched?: TimelinePipe): Promise<ISharePointCardItem[]> {
+    const items = this._getMasterList().items;
+    if (batched) {
+      items.using(batched);
+    }
+    return items
+      .select('*')
+      .orderBy('DefaultOrder')();
+  }
+
+  private _toMasterCards(items: ISharePointCardItem[]): IMasterCard[] {
+    return items.map((item, index) => ({
+      id: item.Id,
+      title: item.Title,
+      // Handle Fixed field - SharePoint Yes/No column returns boolean directly
+      fixed: item.Fixed === true,
+      defaultOrder: item.DefaultOrder || index + 1,
+      cardViewJSON: item.CardViewJSON || '',
+      cardTooltip: item.CardTooltip || '',
+      defaultColumnSpan: item.ColumnSpan || 1,
+      defaultRowSpan: item.RowSpan || 1,
+      dataSource: this._parseJsonColumn<ICardDataSource>(item, 'DataSource'),
+      refreshInterval: item.RefreshInterval || undefined,
+      created: item.Created,
+      audience: this._parseJsonColumn<ICardAudience>(item, 'Audience')
+    }));
+  }
+
+  // The user's SharePoint groups, and the permission levels their effective permissions on this web cover
+  private async _getSharePointAudience(batched: TimelinePipe): Promise<Pick<IUserAudience, 'sharePointGroups' | 'permissionLevels'>> {
+    const [groups, web, roleDefinitions] = await Promise.all([
+      this._getWeb('site').currentUser.groups.using(batched).select('Title')<{ Title: string }[]>(),
+      this._getWeb('web').using(batched).select('EffectiveBasePermissions')<{ EffectiveBasePermissions: ISharePointBasePermissions }>(),
+      this._getWeb('web').roleDefinitions.using(batched).select('Name', 'BasePermissions')<ISharePointRoleDefinition[]>()
+    ]);
+
+    // A level is held when every permission bit it grants is among the user's effective ones
+    const effective = web.EffectiveBasePermissions;
+    const isHeld = ({ BasePermissions: required }: ISharePointRoleDefinition): boolean =>
+      (Number(required.High) & ~Number(effective.High)) === 0 && (Number(required.Low) & ~Number(effective.Low)) === 0;
+
+    return {
+      sharePointGroups: groups.map(group => group.Title),
+      permissionLevels: roleDefinitions.filter(isHeld).map(roleDefinition => roleDefinition.Name)
+    };
+  }
+
+  // The given groups the user is a member of, directly or through nested groups
+  private async _getAadGroupMemberships(groupIds: string[]): Promise<string[]> {
+    if (groupIds.length === 0) {
+      return [];
+    }
+    if (!this._graphClientFactory) {
+      throw new Error('No Microsoft Graph client is available to check Azure AD groups.');
+    }
+
+    const client = await this._graphClientFactory.getClient('3');
+    const chunks: string[][] = [];
+    for (let i = 0; i < groupIds.length; i += MAX_GROUPS_PER_CHECK) {
+      chunks.push(groupIds.slice(i, i + MAX_GROUPS_PER_CHECK));
+    }
+    const responses: { value: string[] }[] = await Promise.all(chunks.map(chunk =>
+      client.api('/me/checkMemberGroups').post({ groupIds: chunk })
+    ));
+    return responses.reduce((memberships, response) => memberships.concat(response.value), [] as string[]);
+  }
+
+  // Finds the item by the user's ID, or failing that by the login name older versions stored. Should two
+  // tabs still have added an item each, the most recently modified one is always the one used.
+  private async _getUserSettingsItem(batched?: TimelinePipe): Promise<ISharePointUserSettingsItem | undefined> {
+    const { settingsListScope, settingsListName, userId, userLoginName } = this._options;
+    const settingsItems = this._getItems(settingsListScope, settingsListName);
+    if (batched) {
+      settingsItems.using(batched);
+    }
+    const filter = userLoginName && userLoginName !== userId
+      ? `UserID eq ${odataString(userId)} or UserID eq ${odataString(userLoginName)}`
+      : `UserID eq ${odataString(userId)}`;
+    const items: ISharePointUserSettingsItem[] = await settingsItems
+      .select('Id', 'UserID', 'PersonalisedCards')
+      .filter(filter)
+      .orderBy('Modified', false)
+      .top(2)();
+
+    return items.filter(item => item.UserID === userId)[0] || items[0];
+  }
+
+  // Re-keys an item saved under the login name to the user's ID, so later lookups need only the ID
+  private async _migrateSettingsItem(item: ISharePointUserSettingsItem): Promise<void> {
+    const { settingsListScope, settingsListName, userId } = this._options;
+    const { etag } = await this._getItems(settingsListScope, settingsListName).getById(item.Id)
+      .update({ UserID: userId }, item['odata.etag']);
+    // Re-keying is a change like any other; without this the next save would conflict with it
+    this._settingsETag = etag;
+  }
+
+  // Remembers the item (or its absence) for the next save, and caches the settings it holds
+  private _trackSettingsItem(item: ISharePointUserSettingsItem | undefined): IUserSettings | undefined {
+    this._settingsItemId = item?.Id;
+    this._settingsETag = item?.['odata.etag'];
+    this._isSettingsItemKnown = true;
+
+    // Unreadable settings give the default layout; the item is still known, so the next save replaces them
+    const userSettings = item ? parseUserSettings(item.PersonalisedCards) : undefined;
+    if (userSettings) {
+      this._cache.write(this._settingsCacheKey, userSettings);
+    } else {
+      this._cache.remove(this._settingsCacheKey);
+    }
+    return userSettings;
+  }
+
+  // Cache keys name the site, the list and the user, so switching any of them never shows another's data
+  private get _cardsCacheKey(): string {
+    const { masterListScope, masterListName, userId } = this._options;
+    return `cards:${this._getScopeUrl(masterListScope)}:${masterListName}:${userId}`;
+  }
+
+  // Permission levels are per web, so the current web names the user's memberships
+  private get _audienceCacheKey(): string {
+    return `audience:${this._options.webUrl}:${this._options.userId}`;
+  }
+
+  private get _settingsCacheKey(): string {
+    const { settingsListScope, settingsListName, userId } = this._options;
+    return `settings:${this._getScopeUrl(settingsListScope)}:${settingsListName}:${userId}`;
+  }
+
+  private _getMasterList(): IList {
+    return this._getWeb(this._options.masterListScope).lists.getByTitle(this._options.masterListName);
+  }
+
+  private _getItems(scope: ListScope, listName: string): IItems {
+    return this._getWeb(scope).lists.getByTitle(listName).items;
+  }
+
+  private _getWeb(scope: ListScope): IWeb {
+    return Web([this._sp.web, this._getScopeUrl(scope)]);
+  }
+
+  private _getScopeUrl(scope: ListScope): string {
+    return scope === 'site' ? this._options.siteUrl : this._options.webUrl;
+  }
+}
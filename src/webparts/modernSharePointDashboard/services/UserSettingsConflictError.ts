@@ -0,0 +1,10 @@
+import type { IUserSettings } from './IDashboardDataService';
+
+// Thrown by saveUserSettings when the stored settings changed since they were read (another tab,
+// or Teams). Carries the settings as now stored; the next save overwrites them.
+export class UserSettingsConflictError extends Error {
+  constructor(public storedSettings: IUserSettings | undefined) {
+    super('The user settings were changed elsewhere since they were loaded.');
+    this.name = 'UserSettingsConflictError';
+  }
+}
@@ -0,0 +1,255 @@
+import { IMasterCard } from './IDashboardDataService';
+
+// JSON fixtures mirroring MasterCardList items, for running without a tenant
+export const sampleCards: IMasterCard[] = [
+  {
+    id: 1,
+    title: 'Welcome',
+    fixed: true,
+    defaultOrder: 1,
+    defaultColumnSpan: 1,
+    defaultRowSpan: 1,
+    cardTooltip: 'Always shown to every user',
+    cardViewJSON: JSON.stringify({
+      type: 'AdaptiveCard',
+      version: '1.5',
+      body: [
+        { type: 'TextBlock', text: 'Welcome to your dashboard', size: 'Large', weight: 'Bolder', wrap: true },
+        { type: 'TextBlock', text: 'Use **Customize Dashboard** to choose the cards you want to see, or **Edit Layout** to arrange them.', wrap: true }
+      ]
+    })
+  },
+  {
+    id: 2,
+    title: 'Tickets by Status',
+    fixed: false,
+    defaultOrder: 2,
+    defaultColumnSpan: 1,
+    defaultRowSpan: 1,
+    dataSource: {
+      listName: 'Tickets',
+      select: 'Title,Status'
+    },
+    cardViewJSON: JSON.stringify({
+      type: 'Chart.Donut',
+      title: 'Tickets by Status',
+      aggregation: {
+        groupBy: 'Status',
+        operation: 'count'
+      }
+    })
+  },
+  {
+    id: 3,
+    title: 'Monthly Sales',
+    fixed: false,
+    defaultOrder: 3,
+    defaultColumnSpan: 2,
+    defaultRowSpan: 1,
+    cardViewJSON: JSON.stringify({
+      type: 'AdaptiveCard',
+      version: '1.5',
+      body: [
+        {
+          type: 'Chart.VerticalBar',
+          title: 'Monthly Sales',
+          xAxisTitle: 'Month',
+          yAxisTitle: 'Sales',
+          series: [
+            {
+              name: 'This year',
+              color: '#0078d4',
+              data: [{ x: 'Jan', y: 120 }, { x: 'Feb', y: 98 }, { x: 'Mar', y: 143 }, { x: 'Apr', y: 131 }]
+            },
+            {
+              name: 'Last year',
+              color: '#a19f9d',
+              data: [{ x: 'Jan', y: 104 }, { x: 'Feb', y: 112 }, { x: 'Mar', y: 127 }, { x: 'Apr', y: 118 }]
+            }
+          ]
+        }
+      ]
+    })
+  },
+  {
+    id: 4,
+    title: 'Team Directory',
+    fixed: false,
+    defaultOrder: 4,
+    defaultColumnSpan: 2,
+    defaultRowSpan: 1,
+    cardViewJSON: JSON.stringify({
+      type: 'AdaptiveCard',
+      version: '1.5',
+      body: [
+        {
+          type: 'Table',
+          tableColumns: [{ title: 'Name' }, { title: 'Role' }],
+          rows: [
+            { cells: [{ text: 'Megan Bowen' }, { text: 'Marketing Manager' }] },
+            { cells: [{ text: 'Alex Wilber' }, { text: 'Sales Lead' }] },
+            { cells: [{ text: 'Lynne Robbins' }, { text: 'Support Engineer' }] }
+          ]
+        }
+      ]
+    })
+  },
+  {
+    id: 5,
+    title: 'Site Usage',
+    fixed: false,
+    defaultOrder: 5,
+    defaultColumnSpan: 2,
+    defaultRowSpan: 1,
+    cardViewJSON: JSON.stringify({
+      type: 'AdaptiveCard',
+      version: '1.5',
+      body: [
+        {
+          type: 'Chart.Line',
+          title: 'Page Views',
+          stacked: true,
+          fill: true,
+          series: [
+            {
+              name: 'Desktop',
+              data: [{ x: 'Mon', y: 220 }, { x: 'Tue', y: 290 }, { x: 'Wed', y: 250 }, { x: 'Thu', y: 310 }, { x: 'Fri', y: 190 }]
+            },
+            {
+              name: 'Mobile',
+              data: [{ x: 'Mon', y: 100 }, { x: 'Tue', y: 120 }, { x: 'Wed', y: 130 }, { x: 'Thu', y: 142 }, { x: 'Fri', y: 100 }]
+            }
+          ]
+        }
+      ]
+    })
+  },
+  {
+    id: 6,
+    title: 'Open Tickets',
+    fixed: false,
+    defaultOrder: 6,
+    defaultColumnSpan: 2,
+    defaultRowSpan: 1,
+    dataSource: {
+      listName: 'Tickets',
+      select: 'Title,Status,AssignedTo',
+      filter: "Status ne 'Resolved'",
+      top: 5
+    },
+    refreshInterval: 60,
+    cardViewJSON: JSON.stringify({
+      type: 'AdaptiveCard',
+      version: '1.5',
+      body: [
+        { type: 'TextBlock', text: 'Open Tickets', size: 'Medium', weight: 'Bolder' },
+        {
+          type: 'Table',
+          tableColumns: [{ title: 'Ticket' }, { title: 'Status' }, { title: 'Assigned To' }],
+          rows: [
+            { $data: '${$root}', cells: [{ text: '${Title}' }, { text: '${Status}' }, { text: '${AssignedTo}' }] }
+          ]
+        }
+      ]
+    })
+  },
+  {
+    id: 7,
+    title: 'Storage Used',
+    fixed: false,
+    defaultOrder: 7,
+    defaultColumnSpan: 1,
+    defaultRowSpan: 1,
+    cardViewJSON: JSON.stringify({
+      type: 'Chart.Gauge',
+      title: 'Storage Used',
+      min: 0,
+      max: 100,
+      value: 72,
+      unit: 'GB',
+      subLabel: 'of 100 GB',
+      target: 80,
+      segments: [
+        { to: 60, color: '#107c10', legend: 'Healthy' },
+        { to: 85, color: '#ffb900', legend: 'Warning' },
+        { to: 100, color: '#d13438', legend: 'Critical' }
+      ]
+    })
+  },
+  {
+    id: 8,
+    title: 'Support Volume',
+    fixed: false,
+    defaultOrder: 8,
+    defaultColumnSpan: 2,
+    defaultRowSpan: 1,
+    cardViewJSON: JSON.stringify({
+      type: 'Chart.Combo',
+      title: 'Support Volume',
+      yAxisTitle: 'Tickets',
+      y2AxisTitle: 'Avg. hours to resolve',
+      data: [
+        { x: 'Jan', y: 42, y2: 6.5 },
+        { x: 'Feb', y: 38, y2: 5.9 },
+        { x: 'Mar', y: 51, y2: 7.2 },
+        { x: 'Apr', y: 35, y2: 4.8 }
+      ]
+    })
+  },
+  {
+    id: 9,
+    title: 'Report an Issue',
+    fixed: false,
+    defaultOrder: 9,
+    defaultColumnSpan: 1,
+    defaultRowSpan: 2,
+    cardViewJSON: JSON.stringify({
+      type: 'AdaptiveCard',
+      version: '1.5',
+      body: [
+        { type: 'TextBlock', text: 'Report an Issue', size: 'Medium', weight: 'Bolder' },
+        {
+          type: 'Input.Text',
+          id: 'Title',
+          label: 'Summary',
+          placeholder: 'What is the problem?',
+          isRequired: true,
+          maxLength: 255,
+          errorMessage: 'Describe the problem in a few words.'
+        },
+        {
+          type: 'Input.ChoiceSet',
+          id: 'AssignedTo',
+          label: 'Team member',
+          value: 'Alex Wilber',
+          choices: [
+            { title: 'Alex Wilber', value: 'Alex Wilber' },
+            { title: 'Lynne Robbins', value: 'Lynne Robbins' },
+            { title: 'Megan Bowen', value: 'Megan Bowen' }
+          ]
+        },
+        { type: 'Input.Date', id: 'DueDate', label: 'Needed by' },
+        { type: 'Input.Toggle', id: 'Urgent', title: 'Blocking my work', valueOn: 'Yes', valueOff: 'No' }
+      ],
+      actions: [
+        {
+          type: 'Action.Submit',
+          title: 'Submit',
+          listName: 'Tickets',
+          data: { Status: 'Open' },
+          successMessage: 'Thanks, your issue has been logged.'
+        }
+      ]
+    })
+  }
+];
+
+// Card data fixtures keyed by data source list name or URL
+export const sampleCardData: { [source: string]: unknown } = {
+  Tickets: [
+    { Id: 1, Title: 'VPN drops every hour', Status: 'Open', AssignedTo: 'Alex Wilber' },
+    { Id: 2, Title: 'New starter laptop', Status: 'In Progress', AssignedTo: 'Lynne Robbins' },
+    { Id: 3, Title: 'Printer on floor 3 offline', Status: 'Open', AssignedTo: 'Megan Bowen' },
+    { Id: 4, Title: 'Teams meeting room booking', Status: 'In Progress', AssignedTo: 'Alex Wilber' }
+  ]
+};
@@ -0,0 +1,45 @@
+import { isUserSettings, parseUserSettings, upgradeUserSettings, USER_SETTINGS_SCHEMA_VERSION } from './userSettingsSchema';
+
+const selectedCards = [{ id: 1, title: 'News', order: 1, columnSpan: 2, rowSpan: 1 }];
+
+describe('userSettingsSchema', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('accepts settings of the current version', () => {
+    const settings = { schemaVersion: USER_SETTINGS_SCHEMA_VERSION, timestamp: '2024-01-01', selectedCards };
+
+    expect(isUserSettings(settings)).toBe(true);
+    expect(upgradeUserSettings(settings)).toEqual(settings);
+  });
+
+  it('migrates unversioned settings to the current version', () => {
+    expect(upgradeUserSettings({ timestamp: '2024-01-01', selectedCards })).toEqual({
+      schemaVersion: USER_SETTINGS_SCHEMA_VERSION,
+      timestamp: '2024-01-01',
+      selectedCards
+    });
+  });
+
+  it('ignores settings written by a newer version', () => {
+    expect(upgradeUserSettings({ schemaVersion: USER_SETTINGS_SCHEMA_VERSION + 1, timestamp: '2024-01-01', selectedCards }))
+      .toBeUndefined();
+  });
+
+  it('ignores settings with malformed cards', () => {
+    const settings = { timestamp: '2024-01-01', selectedCards: [{ id: 1, title: 'News', order: 1, rowSpan: 0 }] };
+
+    expect(upgradeUserSettings(settings)).toBeUndefined();
+    expect(upgradeUserSettings([settings])).toBeUndefined();
+  });
+
+  it('parses stored JSON, ignoring invalid JSON', () => {
+    expect(parseUserSettings(JSON.stringify({ timestamp: '2024-01-01', selectedCards }))).toMatchObject({ selectedCards });
+    expect(parseUserSettings('{')).toBeUndefined();
+  });
+});
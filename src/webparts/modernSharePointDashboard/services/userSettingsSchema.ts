@@ -0,0 +1,71 @@
+import type { ISelectedCard, IUserSettings } from './IDashboardDataService';
+
+// Version of the PersonalisedCards JSON this web part writes. New optional fields (such as pinned cards
+// or per-card options) can be added within a version; renaming, removing or reshaping a field needs a new
+// version and a migration from the previous one.
+export const USER_SETTINGS_SCHEMA_VERSION = 2;
+
+interface IStoredUserSettings {
+  // Missing on settings saved before the schema was versioned, which count as version 1
+  schemaVersion?: number;
+  [field: string]: unknown;
+}
+
+// Upgrades from each version to the next; settings are migrated one version at a time
+const migrations: { [fromVersion: number]: (settings: IStoredUserSettings) => IStoredUserSettings } = {
+  // Version 1 is the unversioned { timestamp, selectedCards } object, which version 2 only stamps
+  1: settings => ({ ...settings, schemaVersion: 2 })
+};
+
+const isPositiveNumber = (value: unknown): boolean => typeof value === 'number' && isFinite(value) && value > 0;
+
+const isSelectedCard = (value: unknown): value is ISelectedCard => {
+  const card = value as ISelectedCard;
+  return !!card && typeof card === 'object' &&
+    typeof card.id === 'number' && isFinite(card.id) &&
+    typeof card.title === 'string' &&
+    typeof card.order === 'number' && isFinite(card.order) &&
+    (card.columnSpan === undefined || isPositiveNumber(card.columnSpan)) &&
+    (card.rowSpan === undefined || isPositiveNumber(card.rowSpan));
+};
+
+export const isUserSettings = (value: unknown): value is IUserSettings => {
+  const settings = value as IUserSettings;
+  return !!settings && typeof settings === 'object' &&
+    settings.schemaVersion === USER_SETTINGS_SCHEMA_VERSION &&
+    typeof settings.timestamp === 'string' &&
+    Array.isArray(settings.selectedCards) &&
+    settings.selectedCards.every(isSelectedCard);
+};
+
+// Migrates stored settings of any known version to the current one. Corrupt settings, and settings
+// written by a newer version of the web part, give undefined so the dashboard falls back to its defaults.
+export const upgradeUserSettings = (value: unknown): IUserSettings | undefined => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    console.warn('Ignoring user settings that are not an object:', value);
+    return undefined;
+  }
+
+  let settings = value as IStoredUserSettings;
+  let version = settings.schemaVersion === undefined ? 1 : settings.schemaVersion;
+  while (version < USER_SETTINGS_SCHEMA_VERSION && migrations[version]) {
+    settings = migrations[version](settings);
+    version = settings.schemaVersion;
+  }
+
+  if (!isUserSettings(settings)) {
+    console.warn(`Ignoring user settings that do not match schema version ${USER_SETTINGS_SCHEMA_VERSION}:`, value);
+    return undefined;
+  }
+  return settings;
+};
+
+// Reads the PersonalisedCards JSON of a user settings item
+export const parseUserSettings = (json: string): IUserSettings | undefined => {
+  try {
+    return upgradeUserSettings(JSON.parse(json));
+  } catch (error) {
+    console.warn('Ignoring user settings that are not valid JSON:', error);
+    return undefined;
+  }
+};
@@ -0,0 +1,50 @@
+import type { ICardAudience, IMasterCard, IUserAudience } from '../services/IDashboardDataService';
+
+const isTargeted = (audience: ICardAudience | undefined): boolean =>
+  !!audience && [audience.sharePointGroups, audience.aadGroups, audience.permissionLevels]
+    .some(names => !!names && names.length > 0);
+
+// Group names, IDs and permission level names all compare case-insensitively, as SharePoint does
+const hasAny = (names: string[] | undefined, memberships: string[]): boolean => {
+  const lowerMemberships = memberships.map(membership => membership.toLowerCase());
+  return (names || []).some(name => lowerMemberships.indexOf(name.toLowerCase()) !== -1);
+};
+
+// Cards without an audience are for everyone; targeted cards for members of any group or level listed.
+// Without known memberships (such as before they have loaded) only untargeted cards are shown.
+export const isInAudience = (audience: ICardAudience | undefined, user: IUserAudience | undefined): boolean => {
+  if (!isTargeted(audience)) {
+    return true;
+  }
+  return !!user && (
+    hasAny(audience.sharePointGroups, user.sharePointGroups) ||
+    hasAny(audience.aadGroups, user.aadGroups) ||
+    hasAny(audience.permissionLevels, user.permissionLevels)
+  );
+};
+
+// The cards the user may see. Fixed cards sharing a default slot are alternatives: the first targeted one
+// the user is in replaces the others, so an untargeted fixed card is the default for everyone else.
+export const filterCardsForAudience = (cards: IMasterCard[], user: IUserAudience | undefined): IMasterCard[] => {
+  const visibleCards = cards.filter(card => isInAudience(card.audience, user));
+  const targetedFixedBySlot = new Map<number, IMasterCard>();
+  visibleCards.forEach(card => {
+    if (card.fixed && isTargeted(card.audience) && !targetedFixedBySlot.has(card.defaultOrder)) {
+      targetedFixedBySlot.set(card.defaultOrder, card);
+    }
+  });
+
+  return visibleCards.filter(card => !card.fixed || !targetedFixedBySlot.has(card.defaultOrder) ||
+    targetedFixedBySlot.get(card.defaultOrder) === card);
+};
+
+// AAD group IDs the cards target, for checking the user's membership of just those groups
+export const getTargetedAadGroups = (cards: IMasterCard[]): string[] => {
+  const groupIds: string[] = [];
+  cards.forEach(card => ((card.audience && card.audience.aadGroups) || []).forEach(groupId => {
+    if (groupIds.indexOf(groupId) === -1) {
+      groupIds.push(groupId);
+    }
+  }));
+  return groupIds;
+};
@@ -0,0 +1,257 @@
+import type { IReadonlyTheme } from '@microsoft/sp-component-base';
+
+// Colors the custom elements and charts use on top of the Adaptive Cards host config
+export interface ICardColors {
+  background: string;
+  emphasisBackground: string;
+  text: string;
+  subtleText: string;
+  disabledText: string;
+  accent: string;
+  // Text drawn on an accent background (primary buttons, selected states)
+  accentText: string;
+  attention: string;
+  good: string;
+  warning: string;
+  // Tinted backgrounds behind accent, good, attention and warning content (selected buttons, styled tables, notices)
+  accentBackground: string;
+  goodBackground: string;
+  attentionBackground: string;
+  warningBackground: string;
+  border: string;
+  inputBackground: string;
+  inputBorder: string;
+  inputText: string;
+}
+
+const cardSpacing = {
+  small: 4,
+  default: 8,
+  medium: 16,
+  large: 24,
+  extraLarge: 32,
+  padding: 16
+};
+
+const lightColors: ICardColors = {
+  background: '#ffffff',
+  emphasisBackground: '#faf9f8',
+  text: '#323130',
+  subtleText: '#605e5c',
+  disabledText: '#a19f9d',
+  accent: '#0078d4',
+  accentText: '#ffffff',
+  attention: '#a4262c',
+  good: '#107c10',
+  warning: '#8a6e00',
+  accentBackground: '#deecf9',
+  goodBackground: '#dff6dd',
+  attentionBackground: '#fde7e9',
+  warningBackground: '#fff4ce',
+  border: '#edebe9',
+  inputBackground: '#ffffff',
+  inputBorder: '#8a8886',
+  inputText: '#323130'
+};
+
+// Windows high contrast overrides page colors; CSS system colors follow the user's scheme, canvas charts included
+const highContrastColors: ICardColors = {
+  background: 'Canvas',
+  emphasisBackground: 'Canvas',
+  text: 'CanvasText',
+  subtleText: 'CanvasText',
+  disabledText: 'GrayText',
+  accent: 'Highlight',
+  accentText: 'HighlightText',
+  attention: 'CanvasText',
+  good: 'CanvasText',
+  warning: 'CanvasText',
+  accentBackground: 'Canvas',
+  goodBackground: 'Canvas',
+  attentionBackground: 'Canvas',
+  warningBackground: 'Canvas',
+  border: 'CanvasText',
+  inputBackground: 'Field',
+  inputBorder: 'CanvasText',
+  inputText: 'FieldText'
+};
+
+const isHighContrast = (): boolean =>
+  typeof window !== 'undefined' && !!window.matchMedia && window.matchMedia('(forced-colors: active)').matches;
+
+// Card colors from the SharePoint section or Teams theme; the default light palette without one
+export const buildCardColors = (theme?: IReadonlyTheme): ICardColors => {
+  if (isHighContrast()) {
+    return highContrastColors;
+  }
+
+  const semanticColors = theme?.semanticColors;
+  const palette = theme?.palette;
+  if (!semanticColors) {
+    return lightColors;
+  }
+
+  return {
+    background: semanticColors.bodyBackground || lightColors.background,
+    emphasisBackground: semanticColors.bodyStandoutBackground || palette?.neutralLighterAlt || lightColors.emphasisBackground,
+    text: semanticColors.bodyText || lightColors.text,
+    subtleText: semanticColors.bodySubtext || lightColors.subtleText,
+    disabledText: semanticColors.disabledText || lightColors.disabledText,
+    accent: palette?.themePrimary || semanticColors.link || lightColors.accent,
+    accentText: semanticColors.primaryButtonText || lightColors.accentText,
+    attention: semanticColors.errorText || lightColors.attention,
+    good: semanticColors.successIcon || lightColors.good,
+    warning: semanticColors.warningIcon || lightColors.warning,
+    accentBackground: palette?.themeLighter || lightColors.accentBackground,
+    goodBackground: semanticColors.successBackground || lightColors.goodBackground,
+    attentionBackground: semanticColors.errorBackground || lightColors.attentionBackground,
+    warningBackground: semanticColors.warningBackground || lightColors.warningBackground,
+    border: semanticColors.bodyDivider || lightColors.border,
+    inputBackground: semanticColors.inputBackground || lightColors.inputBackground,
+    inputBorder: semanticColors.inputBorder || lightColors.inputBorder,
+    inputText: semanticColors.inputText || lightColors.inputText
+  };
+};
+
+// Host config values that do not depend on the theme
+const staticHostConfig = {
+  spacing: cardSpacing,
+  supportsInteractivity: true,
+  fontFamily: "Segoe UI, system-ui, sans-serif",
+  fontSizes: {
+    small: 12,
+    default: 14,
+    medium: 17,
+    large: 21,
+    extraLarge: 26
+  },
+  fontWeights: {
+    lighter: 200,
+    default: 400,
+    bolder: 600
+  },
+  imageSizes: {
+    small: 40,
+    medium: 80,
+    large: 160
+  },
+  actions: {
+    maxActions: 5,
+    spacing: "default",
+    buttonSpacing: 10,
+    showCard: {
+      actionMode: "inline",
+      inlineTopMargin: 16
+    },
+    actionsOrientation: "horizontal",
+    actionAlignment: "left"
+  },
+  adaptiveCard: {
+    allowCustomStyle: false
+  },
+  imageSet: {
+    imageSize: "medium",
+    maxImageHeight: 100
+  },
+  media: {
+    defaultPoster: "",
+    allowInlinePlayback: false
+  },
+  factSet: {
+    title: {
+      color: "default",
+      size: "default",
+      isSubtle: false,
+      weight: "bolder",
+      wrap: true,
+      maxWidth: 150
+    },
+    value: {
+      color: "default",
+      size: "default",
+      isSubtle: false,
+      weight: "default",
+      wrap: true
+    },
+    spacing: 10
+  }
+};
+
+interface IContainerStyle {
+  backgroundColor: string;
+  foregroundColors: { [color: string]: { default: string; subtle: string } };
+}
+
+export type CardHostConfig = typeof staticHostConfig & {
+  colors: ICardColors;
+  separator: { lineThickness: number; lineColor: string };
+  containerStyles: { default: IContainerStyle; emphasis: IContainerStyle };
+};
+
+// One host config for both renderers: the native Adaptive Cards renderer takes it as its HostConfig,
+// the custom elements read spacing and sizes from it and colors from its colors section
+export const buildCardHostConfig = (theme?: IReadonlyTheme): CardHostConfig => {
+  const colors = buildCardColors(theme);
+  const foregroundColors = {
+    default: { default: colors.text, subtle: colors.subtleText },
+    dark: { default: colors.text, subtle: colors.subtleText },
+    light: { default: colors.subtleText, subtle: colors.disabledText },
+    accent: { default: colors.accent, subtle: colors.accent },
+    attention: { default: colors.attention, subtle: colors.attention },
+    good: { default: colors.good, subtle: colors.good },
+    warning: { default: colors.warning, subtle: colors.warning }
+  };
+
+  return {
+    ...staticHostConfig,
+    colors,
+    separator: {
+      lineThickness: 1,
+      lineColor: colors.border
+    },
+    containerStyles: {
+      default: {
+        backgroundColor: colors.background,
+        foregroundColors
+      },
+      emphasis: {
+        backgroundColor: colors.emphasisBackground,
+        foregroundColors
+      }
+    }
+  };
+};
+
+// Pixel value of an element's spacing property
+export const getSpacing = (spacing?: string): number => {
+  switch ((spacing || 'Default').toLowerCase()) {
+    case 'none':
+      return 0;
+    case 'small':
+      return cardSpacing.small;
+    case 'medium':
+      return cardSpacing.medium;
+    case 'large':
+      return cardSpacing.large;
+    case 'extralarge':
+      return cardSpacing.extraLarge;
+    case 'padding':
+      return cardSpacing.padding;
+    default:
+      return cardSpacing.default;
+  }
+};
+
+// Card colors as CSS custom properties, for the stylesheet rules of the dashboard shell and the customize panel
+export const getThemeVariables = (colors: ICardColors): { [name: string]: string } => ({
+  '--cardBackground': colors.background,
+  '--cardEmphasisBackground': colors.emphasisBackground,
+  '--cardText': colors.text,
+  '--cardSubtleText': colors.subtleText,
+  '--cardDisabledText': colors.disabledText,
+  '--cardAccent': colors.accent,
+  '--cardBorder': colors.border,
+  '--cardInputBorder': colors.inputBorder,
+  '--cardInputBackground': colors.inputBackground,
+  '--cardInputText': colors.inputText
+});
@@ -0,0 +1,37 @@
+// {{DATE(2026-10-19T00:00:00Z, SHORT)}} and {{TIME(2026-10-19T09:30:00Z)}} from the Adaptive Cards text functions
+const TEXT_FUNCTION_PATTERN = /\{\{(DATE|TIME)\(([^)]*)\)\}\}/g;
+
+// The timestamp has to be RFC 3339 with a time zone, as in the Adaptive Cards schema
+const RFC3339_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/i;
+
+const dateFormats: { [format: string]: Intl.DateTimeFormatOptions } = {
+  COMPACT: { year: 'numeric', month: 'numeric', day: 'numeric' },
+  SHORT: { weekday: 'short', year: 'numeric', month: 'short', day: 'numeric' },
+  LONG: { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' }
+};
+
+const formatDate = (date: Date, options: Intl.DateTimeFormatOptions, locale?: string): string => {
+  try {
+    return date.toLocaleString(locale, options);
+  } catch {
+    // An unknown locale name; fall back to the browser's
+    return date.toLocaleString(undefined, options);
+  }
+};
+
+// Replaces DATE and TIME functions with the date or time in the given locale.
+// Functions with an invalid timestamp or format are left as written, like the native renderer does.
+export const expandTextFunctions = (text: string, locale?: string): string =>
+  text.replace(TEXT_FUNCTION_PATTERN, (match: string, name: string, args: string) => {
+    const [timestamp, format = 'COMPACT'] = args.split(',').map(arg => arg.trim());
+    const date = new Date(timestamp);
+    if (!RFC3339_PATTERN.test(timestamp) || isNaN(date.getTime())) {
+      return match;
+    }
+
+    if (name === 'TIME') {
+      return formatDate(date, { hour: 'numeric', minute: '2-digit' }, locale);
+    }
+    const options = dateFormats[format.toUpperCase()];
+    return options ? formatDate(date, options, locale) : match;
+  });
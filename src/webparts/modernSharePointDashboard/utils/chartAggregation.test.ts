@@ -0,0 +1,59 @@
+import { aggregateChartData, getFieldValue } from './chartAggregation';
+
+const items = [
+  { Status: 'Open', Hours: 4, Owner: { Title: 'Ana' }, Created: '2024-03-04T10:00:00' },
+  { Status: 'Open', Hours: 2, Owner: { Title: 'Ben' }, Created: '2024-03-06T10:00:00' },
+  { Status: 'Closed', Hours: 1, Owner: { Title: 'Ana' }, Created: '2024-03-12T10:00:00' },
+  { Status: 'Blocked', Hours: 8, Owner: { Title: 'Cy' }, Created: '2024-04-01T10:00:00' },
+  { Status: '', Hours: 'n/a', Created: '' }
+];
+
+describe('getFieldValue', () => {
+  it('reads nested lookup and person fields with either separator', () => {
+    expect(getFieldValue(items[0], 'Owner/Title')).toBe('Ana');
+    expect(getFieldValue(items[0], 'Owner.Title')).toBe('Ana');
+    expect(getFieldValue(items[4], 'Owner/Title')).toBeUndefined();
+  });
+});
+
+describe('aggregateChartData', () => {
+  it('counts items per group, largest first, with blanks grouped', () => {
+    expect(aggregateChartData(items, { groupBy: 'Status' }).map(({ legend, value }) => [legend, value])).toEqual([
+      ['Open', 2],
+      ['Closed', 1],
+      ['Blocked', 1],
+      ['(Blank)', 1]
+    ]);
+  });
+
+  it('sums a field, skipping values that are not numbers', () => {
+    const data = aggregateChartData(items, { groupBy: 'Owner/Title', operation: 'sum', field: 'Hours' });
+
+    expect(data.map(({ legend, value }) => [legend, value])).toEqual([
+      ['Cy', 8],
+      ['Ana', 5],
+      ['Ben', 2],
+      ['(Blank)', 0]
+    ]);
+  });
+
+  it('averages a field and returns matching x and y values', () => {
+    const [open] = aggregateChartData(items, { groupBy: 'Status', operation: 'avg', field: 'Hours', sortBy: 'label' })
+      .filter(item => item.legend === 'Open');
+
+    expect(open).toEqual({ legend: 'Open', value: 3, x: 'Open', y: 3 });
+  });
+
+  it('groups dates by month and week in time order, leaving out empty dates', () => {
+    expect(aggregateChartData(items, { groupBy: 'Created', dateBucket: 'month' }).map(item => item.legend))
+      .toEqual(['2024-03', '2024-04']);
+    expect(aggregateChartData(items, { groupBy: 'Created', dateBucket: 'week' }).map(({ legend, value }) => [legend, value]))
+      .toEqual([['2024-03-04', 2], ['2024-03-11', 1], ['2024-04-01', 1]]);
+  });
+
+  it('folds groups beyond the top N into a trailing Other group', () => {
+    const data = aggregateChartData(items, { groupBy: 'Status', top: 1, otherLabel: 'Rest' });
+
+    expect(data.map(({ legend, value }) => [legend, value])).toEqual([['Open', 2], ['Rest', 3]]);
+  });
+});
@@ -0,0 +1,125 @@
+export type AggregationOperation = 'count' | 'sum' | 'avg' | 'min' | 'max';
+export type DateBucket = 'day' | 'week' | 'month';
+
+// Declarative spec on a Chart element that turns list items into chart data
+export interface IChartAggregation {
+  groupBy: string;
+  operation?: AggregationOperation;
+  // Field the operation runs over; not needed for count
+  field?: string;
+  // Treat the groupBy field as a date and group by day, week (starting Monday) or month
+  dateBucket?: DateBucket;
+  // Keep the N largest groups and fold the rest into one "Other" group
+  top?: number;
+  otherLabel?: string;
+  sortBy?: 'label' | 'value';
+  sortDirection?: 'asc' | 'desc';
+}
+
+export interface IAggregatedDataItem {
+  legend: string;
+  value: number;
+  x: string;
+  y: number;
+}
+
+interface IGroup {
+  label: string;
+  itemCount: number;
+  values: number[];
+}
+
+// Reads a field from a list item; lookup and person fields use "Field/Property" or "Field.Property"
+export const getFieldValue = (item: unknown, path: string): unknown =>
+  path.split(/[./]/).reduce<unknown>(
+    (value, key) => (value !== null && typeof value === 'object' ? (value as { [key: string]: unknown })[key] : undefined),
+    item
+  );
+
+const pad = (value: number): string => (value < 10 ? `0${value}` : `${value}`);
+
+const getDateBucketLabel = (value: unknown, bucket: DateBucket): string | undefined => {
+  const date = new Date(value as string);
+  if (value === null || value === undefined || value === '' || isNaN(date.getTime())) {
+    return undefined;
+  }
+  if (bucket === 'month') {
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}`;
+  }
+  if (bucket === 'week') {
+    // Move back to the Monday of the week
+    date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  }
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const applyOperation = (group: IGroup, operation: AggregationOperation): number => {
+  const { values } = group;
+  switch (operation) {
+    case 'sum':
+      return values.reduce((total, value) => total + value, 0);
+    case 'avg':
+      return values.length ? values.reduce((total, value) => total + value, 0) / values.length : 0;
+    case 'min':
+      return values.length ? Math.min(...values) : 0;
+    case 'max':
+      return values.length ? Math.max(...values) : 0;
+    case 'count':
+    default:
+      return group.itemCount;
+  }
+};
+
+export const aggregateChartData = (items: unknown[], spec: IChartAggregation): IAggregatedDataItem[] => {
+  const operation = spec.operation || 'count';
+  const groups = new Map<string, IGroup>();
+
+  items.forEach(item => {
+    const rawLabel = getFieldValue(item, spec.groupBy);
+    const label = spec.dateBucket
+      ? getDateBucketLabel(rawLabel, spec.dateBucket)
+      : rawLabel === null || rawLabel === undefined || rawLabel === '' ? '(Blank)' : String(rawLabel);
+    if (label === undefined) {
+      return;
+    }
+
+    const group = groups.get(label) || { label, itemCount: 0, values: [] };
+    group.itemCount++;
+    if (spec.field) {
+      const value = Number(getFieldValue(item, spec.field));
+      if (!isNaN(value)) {
+        group.values.push(value);
+      }
+    }
+    groups.set(label, group);
+  });
+
+  let groupList = Array.from(groups.values());
+
+  if (spec.top && spec.top > 0 && groupList.length > spec.top) {
+    const byValue = [...groupList].sort((a, b) => applyOperation(b, operation) - applyOperation(a, operation));
+    const rest = byValue.slice(spec.top);
+    groupList = byValue.slice(0, spec.top);
+    groupList.push({
+      label: spec.otherLabel || 'Other',
+      itemCount: rest.reduce((total, group) => total + group.itemCount, 0),
+      values: rest.reduce<number[]>((all, group) => all.concat(group.values), [])
+    });
+  }
+
+  // Date buckets read best in time order, categories with the largest first
+  const sortBy = spec.sortBy || (spec.dateBucket ? 'label' : 'value');
+  const direction = (spec.sortDirection || (sortBy === 'label' ? 'asc' : 'desc')) === 'asc' ? 1 : -1;
+  const otherGroup = spec.top && groupList.length > spec.top ? groupList.pop() : undefined;
+  groupList.sort((a, b) => direction * (sortBy === 'label'
+    ? a.label.localeCompare(b.label)
+    : applyOperation(a, operation) - applyOperation(b, operation)));
+  if (otherGroup) {
+    groupList.push(otherGroup);
+  }
+
+  return groupList.map(group => {
+    const value = applyOperation(group, operation);
+    return { legend: group.label, value, x: group.label, y: value };
+  });
+};
@@ -0,0 +1,46 @@
+import { clampSpan, MAX_ROW_SPAN, packGridTiles } from './gridLayout';
+
+describe('clampSpan', () => {
+  it('rounds spans and keeps them between 1 and the maximum', () => {
+    expect(clampSpan(2.4, 4)).toBe(2);
+    expect(clampSpan(0, 4)).toBe(1);
+    expect(clampSpan(-3, 4)).toBe(1);
+    expect(clampSpan(9, 4)).toBe(4);
+  });
+
+  it('treats a missing span as 1', () => {
+    expect(clampSpan(undefined, 4)).toBe(1);
+  });
+});
+
+describe('packGridTiles', () => {
+  it('places tiles left to right, wrapping onto new rows', () => {
+    const placements = packGridTiles([
+      { id: 1, columnSpan: 2, rowSpan: 1 },
+      { id: 2, columnSpan: 1, rowSpan: 1 },
+      { id: 3, columnSpan: 2, rowSpan: 1 }
+    ], 3);
+
+    expect(placements.map(({ id, column, row }) => ({ id, column, row }))).toEqual([
+      { id: 1, column: 1, row: 1 },
+      { id: 2, column: 3, row: 1 },
+      { id: 3, column: 1, row: 2 }
+    ]);
+  });
+
+  it('fills the gap beside a tall tile', () => {
+    const placements = packGridTiles([
+      { id: 1, columnSpan: 1, rowSpan: 2 },
+      { id: 2, columnSpan: 2, rowSpan: 1 },
+      { id: 3, columnSpan: 2, rowSpan: 1 }
+    ], 3);
+
+    expect(placements[2]).toMatchObject({ id: 3, column: 2, row: 2 });
+  });
+
+  it('clamps column spans to the grid width and row spans to the maximum', () => {
+    const [placement] = packGridTiles([{ id: 1, columnSpan: 6, rowSpan: 100 }], 3);
+
+    expect(placement).toMatchObject({ columnSpan: 3, rowSpan: MAX_ROW_SPAN, column: 1, row: 1 });
+  });
+});
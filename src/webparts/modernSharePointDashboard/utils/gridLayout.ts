@@ -0,0 +1,54 @@
+export interface IGridTile {
+  id: number;
+  columnSpan: number;
+  rowSpan: number;
+}
+
+// 1-based CSS grid position of a packed tile
+export interface IGridPlacement extends IGridTile {
+  column: number;
+  row: number;
+}
+
+// Tallest a tile can be, in grid rows, whether sized in the list, by resizing or in saved settings
+export const MAX_ROW_SPAN = 4;
+
+export const clampSpan = (span: number | undefined, max: number): number =>
+  Math.min(Math.max(Math.round(span || 1), 1), Math.max(max, 1));
+
+// Packs tiles in order into a grid with a fixed number of columns, putting each
+// tile in the first free area (scanning row by row) large enough for its spans.
+// Rows are added as needed, so tiles never overlap and none are dropped.
+export const packGridTiles = (tiles: IGridTile[], columns: number): IGridPlacement[] => {
+  const occupied: boolean[][] = [];
+  const isFree = (row: number, column: number, tile: IGridTile): boolean => {
+    for (let r = row; r < row + tile.rowSpan; r++) {
+      for (let c = column; c < column + tile.columnSpan; c++) {
+        if (occupied[r] && occupied[r][c]) {
+          return false;
+        }
+      }
+    }
+    return true;
+  };
+
+  return tiles.map(tile => {
+    const columnSpan = clampSpan(tile.columnSpan, columns);
+    const rowSpan = clampSpan(tile.rowSpan, MAX_ROW_SPAN);
+    const sizedTile = { ...tile, columnSpan, rowSpan };
+
+    for (let row = 0; ; row++) {
+      for (let column = 0; column + columnSpan <= columns; column++) {
+        if (isFree(row, column, sizedTile)) {
+          for (let r = row; r < row + rowSpan; r++) {
+            occupied[r] = occupied[r] || [];
+            for (let c = column; c < column + columnSpan; c++) {
+              occupied[r][c] = true;
+            }
+          }
+          return { ...sizedTile, column: column + 1, row: row + 1 };
+        }
+      }
+    }
+  });
+};
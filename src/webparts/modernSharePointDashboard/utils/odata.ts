@@ -0,0 +1,2 @@
+// OData string literal for $filter: quoted, with embedded single quotes doubled (O'Brien -> 'O''Brien')
+export const odataString = (value: string): string => `'${value.replace(/'/g, "''")}'`;
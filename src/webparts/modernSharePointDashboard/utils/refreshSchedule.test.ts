@@ -0,0 +1,24 @@
+import { getRefreshDelay, MIN_REFRESH_INTERVAL_SECONDS } from './refreshSchedule';
+
+describe('getRefreshDelay', () => {
+  it('waits the card interval while refreshes succeed', () => {
+    expect(getRefreshDelay(60, 0)).toBe(60 * 1000);
+  });
+
+  it('never refreshes more often than the minimum interval', () => {
+    expect(getRefreshDelay(5, 0)).toBe(MIN_REFRESH_INTERVAL_SECONDS * 1000);
+  });
+
+  it('doubles the wait after each consecutive failure', () => {
+    expect(getRefreshDelay(60, 1)).toBe(120 * 1000);
+    expect(getRefreshDelay(60, 3)).toBe(480 * 1000);
+  });
+
+  it('caps the backoff at 30 minutes', () => {
+    expect(getRefreshDelay(60, 20)).toBe(30 * 60 * 1000);
+  });
+
+  it('keeps intervals longer than the cap', () => {
+    expect(getRefreshDelay(3600, 2)).toBe(3600 * 1000);
+  });
+});
@@ -0,0 +1,14 @@
+// Shortest refresh interval a card may ask for, so a typo cannot hammer the list
+export const MIN_REFRESH_INTERVAL_SECONDS = 30;
+
+// Longest wait between attempts while a card keeps failing (unless its own interval is longer)
+const MAX_BACKOFF_MS = 30 * 60 * 1000;
+
+// Milliseconds until the next refresh: the card's interval, doubled after each consecutive failure
+export const getRefreshDelay = (intervalSeconds: number, failureCount: number): number => {
+  const interval = Math.max(intervalSeconds, MIN_REFRESH_INTERVAL_SECONDS) * 1000;
+  if (failureCount <= 0) {
+    return interval;
+  }
+  return Math.min(interval * Math.pow(2, failureCount), Math.max(interval, MAX_BACKOFF_MS));
+};
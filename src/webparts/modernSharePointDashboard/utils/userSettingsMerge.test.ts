@@ -0,0 +1,48 @@
+import type { ISelectedCard, IUserSettings } from '../services/IDashboardDataService';
+import { USER_SETTINGS_SCHEMA_VERSION } from '../services/userSettingsSchema';
+import { mergeUserSettings } from './userSettingsMerge';
+
+const card = (id: number, order: number, columnSpan: number = 1, rowSpan: number = 1): ISelectedCard =>
+  ({ id, title: `Card ${id}`, order, columnSpan, rowSpan });
+
+const settings = (...selectedCards: ISelectedCard[]): IUserSettings =>
+  ({ schemaVersion: USER_SETTINGS_SCHEMA_VERSION, timestamp: '2024-01-01T00:00:00.000Z', selectedCards });
+
+const ids = (merged: IUserSettings): number[] => merged.selectedCards.map(selected => selected.id);
+
+describe('mergeUserSettings', () => {
+  const base = settings(card(1, 1), card(2, 2), card(3, 3));
+
+  it('keeps my layout when nothing is stored', () => {
+    const mine = settings(card(2, 1));
+
+    expect(mergeUserSettings(base, mine, undefined)).toBe(mine);
+  });
+
+  it('keeps cards added and removed on either side', () => {
+    const mine = settings(card(1, 1), card(2, 2), card(3, 3), card(4, 4));
+    const theirs = settings(card(1, 1), card(3, 2));
+
+    expect(ids(mergeUserSettings(base, mine, theirs))).toEqual([1, 3, 4]);
+  });
+
+  it('takes my moves and sizes and their changes to the other cards', () => {
+    const mine = settings(card(1, 1), card(2, 2, 2, 2), card(3, 3));
+    const theirs = settings(card(1, 1, 3, 1), card(2, 2), card(3, 3));
+
+    const merged = mergeUserSettings(base, mine, theirs);
+
+    expect(merged.selectedCards).toEqual([card(1, 1, 3, 1), card(2, 2, 2, 2), card(3, 3)]);
+  });
+
+  it('renumbers the orders from 1, giving ties to the stored layout', () => {
+    const mine = settings(card(1, 1), card(2, 2), card(3, 1));
+    const theirs = settings(card(1, 1), card(2, 2), card(3, 3), card(5, 4));
+
+    const merged = mergeUserSettings(base, mine, theirs);
+
+    expect(ids(merged)).toEqual([1, 3, 2, 5]);
+    expect(merged.selectedCards.map(selected => selected.order)).toEqual([1, 2, 3, 4]);
+    expect(merged.schemaVersion).toBe(USER_SETTINGS_SCHEMA_VERSION);
+  });
+});
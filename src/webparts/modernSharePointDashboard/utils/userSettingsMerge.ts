@@ -0,0 +1,67 @@
+import type { ISelectedCard, IUserSettings } from '../services/IDashboardDataService';
+import { USER_SETTINGS_SCHEMA_VERSION } from '../services/userSettingsSchema';
+
+const toCardMap = (settings: IUserSettings | undefined): Map<number, ISelectedCard> =>
+  new Map<number, ISelectedCard>((settings ? settings.selectedCards : []).map(card => [card.id, card]));
+
+// Three-way merge of a layout edited from `base` (mine) with the layout stored since (theirs).
+// For each card, whatever this session changed - selection, slot or size - wins; everything else
+// follows the stored layout. Orders are renumbered from 1, with ties going to the stored layout.
+export const mergeUserSettings = (
+  base: IUserSettings | undefined,
+  mine: IUserSettings,
+  theirs: IUserSettings | undefined
+): IUserSettings => {
+  if (!theirs) {
+    return mine;
+  }
+
+  const baseCards = toCardMap(base);
+  const myCards = toCardMap(mine);
+  const theirCards = toCardMap(theirs);
+  const ids: number[] = [];
+  [mine, theirs].forEach(settings => settings.selectedCards.forEach(card => {
+    if (ids.indexOf(card.id) === -1) {
+      ids.push(card.id);
+    }
+  }));
+
+  const merged: { card: ISelectedCard; isMine: boolean }[] = [];
+  ids.forEach(id => {
+    const baseCard = baseCards.get(id);
+    const myCard = myCards.get(id);
+    const theirCard = theirCards.get(id);
+    const isSelected = !!myCard !== !!baseCard ? !!myCard : !!theirCard;
+    if (!isSelected) {
+      return;
+    }
+    if (!theirCard) {
+      merged.push({ card: myCard, isMine: true });
+      return;
+    }
+    if (!myCard) {
+      merged.push({ card: theirCard, isMine: false });
+      return;
+    }
+
+    const isMoved = !baseCard || myCard.order !== baseCard.order;
+    const isResized = !baseCard || myCard.columnSpan !== baseCard.columnSpan || myCard.rowSpan !== baseCard.rowSpan;
+    merged.push({
+      card: {
+        ...theirCard,
+        order: isMoved ? myCard.order : theirCard.order,
+        columnSpan: isResized ? myCard.columnSpan : theirCard.columnSpan,
+        rowSpan: isResized ? myCard.rowSpan : theirCard.rowSpan
+      },
+      isMine: isMoved
+    });
+  });
+
+  return {
+    schemaVersion: USER_SETTINGS_SCHEMA_VERSION,
+    timestamp: new Date().toISOString(),
+    selectedCards: merged
+      .sort((a, b) => a.card.order - b.card.order || Number(a.isMine) - Number(b.isMine))
+      .map(({ card }, index) => ({ ...card, order: index + 1 }))
+  };
+};